@@ -0,0 +1,124 @@
+#!/usr/bin/env node
+
+// Local stand-in for a Roboflow-compatible inference server, for testing without a
+// Roboflow account or network. Accepts every request format the extension can send:
+//   POST /<model>/<version>       multipart "file" upload or base64 body
+//   POST /infer/object_detection  Roboflow Inference JSON request
+// and answers with one face prediction in Roboflow's response shape.
+//
+// Usage: node scripts/roboflow-stub-server.js [--port 9001] [--class happy] [--confidence 0.87]
+//        [--cycle happy,neutral,sad] [--empty] [--invalid]
+// then set "codingBuddy.emotion.roboflow.endpoint": "http://127.0.0.1:9001".
+// It only listens on loopback, so nothing else on the network can send it frames.
+
+const http = require('http');
+
+function parseArgs(argv) {
+    const options = { port: 9001, className: 'happy', confidence: 0.87, cycle: [], empty: false, invalid: false };
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const next = () => argv[++i];
+        switch (arg) {
+            case '--port': options.port = Number(next()); break;
+            case '--class': options.className = next(); break;
+            case '--confidence': options.confidence = Number(next()); break;
+            case '--cycle': options.cycle = next().split(',').map(c => c.trim()).filter(Boolean); break;
+            case '--empty': options.empty = true; break; // no face found
+            case '--invalid': options.invalid = true; break; // violates the response schema
+            case '--help':
+                console.log('Usage: node scripts/roboflow-stub-server.js [--port 9001] [--class happy] [--confidence 0.87] [--cycle a,b,c] [--empty] [--invalid]');
+                process.exit(0);
+                break;
+            default:
+                console.error(`❌ Unknown option ${arg}`);
+                process.exit(1);
+        }
+    }
+    if (!Number.isInteger(options.port) || options.port <= 0) {
+        console.error('❌ --port must be a positive integer');
+        process.exit(1);
+    }
+    if (!(options.confidence >= 0 && options.confidence <= 1)) {
+        console.error('❌ --confidence must be between 0 and 1');
+        process.exit(1);
+    }
+    return options;
+}
+
+const options = parseArgs(process.argv.slice(2));
+let requestCount = 0;
+
+function describeRequest(req, body) {
+    const type = req.headers['content-type'] || '';
+    if (type.startsWith('multipart/form-data')) return `multipart upload, ${body.length} bytes`;
+    if (type.startsWith('application/json')) {
+        try {
+            const json = JSON.parse(body.toString('utf8'));
+            const image = json.image && json.image.value ? json.image.value.length : 0;
+            return `JSON for ${json.model_id || '?'}, ${image} base64 chars`;
+        } catch (error) {
+            return 'malformed JSON';
+        }
+    }
+    return `base64 body, ${body.length} chars`;
+}
+
+function prediction() {
+    const className = options.cycle.length
+        ? options.cycle[(requestCount - 1) % options.cycle.length]
+        : options.className;
+    return {
+        x: 320,
+        y: 240,
+        width: 180,
+        height: 220,
+        confidence: options.confidence,
+        class: className,
+        class_id: 0,
+        detection_id: `stub-${requestCount}`
+    };
+}
+
+const server = http.createServer((req, res) => {
+    const chunks = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+        const body = Buffer.concat(chunks);
+        const url = new URL(req.url, `http://${req.headers.host || 'localhost'}`);
+        const isLegacyRoute = /^\/[^/]+\/[^/]+$/.test(url.pathname);
+        const isInferRoute = url.pathname === '/infer/object_detection';
+
+        if (req.method !== 'POST' || (!isLegacyRoute && !isInferRoute)) {
+            res.writeHead(404, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ message: `No route for ${req.method} ${url.pathname}` }));
+            return;
+        }
+
+        requestCount++;
+        let payload;
+        if (options.invalid) {
+            payload = { predictions: [{ class: 42, confidence: 'high' }] };
+        } else {
+            payload = {
+                time: 0.01,
+                image: { width: 640, height: 480 },
+                predictions: options.empty ? [] : [prediction()]
+            };
+        }
+
+        const model = isInferRoute ? 'infer/object_detection' : url.pathname.slice(1);
+        const first = payload.predictions[0];
+        console.log(`📨 #${requestCount} ${model} (${describeRequest(req, body)}) → ${first ? `${first.class} ${first.confidence}` : 'no face'}`);
+
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(payload));
+    });
+});
+
+server.listen(options.port, '127.0.0.1', () => {
+    console.log(`🧪 Roboflow stub server listening on http://127.0.0.1:${options.port}`);
+    console.log('   Press Ctrl+C to stop.');
+});
+
+process.on('SIGINT', () => server.close(() => process.exit(0)));
+process.on('SIGTERM', () => server.close(() => process.exit(0)));
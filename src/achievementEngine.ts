@@ -0,0 +1,262 @@
+import * as vscode from 'vscode';
+import { BuddyEventBus } from './buddyEventBus';
+import { SessionRecord } from './sessionStore';
+import { BadgeStore, badgeClaimWindowMs } from './badgeStore';
+import {
+    AchievementDefinition, AchievementMetric, CountRule, SessionRule,
+    BUILT_IN_ACHIEVEMENTS, validateAchievement
+} from './achievements';
+
+export interface AchievementUnlock {
+    id: string;
+    unlockedAt: number; // epoch ms
+    sessionId?: string;
+}
+
+export interface AchievementStatus {
+    definition: AchievementDefinition;
+    unlock?: AchievementUnlock;
+    progress?: number; // count rules only
+    target?: number;
+}
+
+interface AchievementState {
+    unlocked: { [id: string]: AchievementUnlock };
+    lifetime: { [id: string]: number };
+    day: { date: string; counts: { [id: string]: number } };
+}
+
+/**
+ * Evaluates achievement rules against bus events and keeps unlocks (plus lifetime and
+ * per-day progress) in global state, so achievements carry across sessions and restarts.
+ * Progress only accrues while a session is running.
+ */
+export class AchievementEngine implements vscode.Disposable {
+    private static readonly STORAGE_KEY = 'codingBuddy.achievements';
+
+    private sessionId: string | undefined;
+    private sessionCounts: Map<string, number> = new Map();
+    private subscriptions: vscode.Disposable[] = [];
+
+    constructor(
+        private readonly state: vscode.Memento,
+        private readonly badgeStore: BadgeStore
+    ) {
+        const events = BuddyEventBus.getInstance();
+        this.subscriptions.push(
+            events.on('sessionStarted', ({ sessionId }) => {
+                this.sessionId = sessionId;
+                this.sessionCounts.clear();
+            }),
+            events.on('sessionStopped', ({ record }) => this.handleSessionStopped(record)),
+            events.on('errorFixed', ({ errorCount }) => this.count('errorsFixed', errorCount)),
+            events.on('breakthrough', ({ at }) => this.count('breakthroughs', 1, at)),
+            events.on('bulkInsertReviewed', () => this.count('bulkInsertsReviewed', 1)),
+            events.on('healthTipShown', ({ at }) => this.count('healthTips', 1, at)),
+            events.on('badgeAwarded', ({ at }) => this.count('timeBadges', 1, at))
+        );
+    }
+
+    /** Built-in definitions followed by valid ones from `codingBuddy.achievements.custom`. */
+    public getDefinitions(): AchievementDefinition[] {
+        const custom = vscode.workspace.getConfiguration('codingBuddy').get<any[]>('achievements.custom', []);
+        const ids = new Set(BUILT_IN_ACHIEVEMENTS.map(d => d.id));
+        const valid: AchievementDefinition[] = [];
+
+        for (const def of custom) {
+            const problem = validateAchievement(def);
+            if (problem) {
+                console.warn(`⚠️ Ignoring custom achievement: ${problem}`);
+            } else if (ids.has(def.id)) {
+                console.warn(`⚠️ Ignoring custom achievement: duplicate id "${def.id}"`);
+            } else {
+                ids.add(def.id);
+                valid.push({ icon: '🏆', description: '', rarity: 'common', ...def });
+            }
+        }
+
+        return [...BUILT_IN_ACHIEVEMENTS, ...valid];
+    }
+
+    public getStatuses(): AchievementStatus[] {
+        const state = this.readState();
+        return this.getDefinitions().map(definition => {
+            const unlock = state.unlocked[definition.id];
+            if (definition.rule.kind !== 'count') {
+                return { definition, unlock };
+            }
+            const target = definition.rule.target;
+            const progress = unlock ? target : Math.min(target, this.currentCount(definition, state, Date.now()));
+            return { definition, unlock, progress, target };
+        });
+    }
+
+    public getUnlocked(): AchievementUnlock[] {
+        return Object.values(this.readState().unlocked).sort((a, b) => b.unlockedAt - a.unlockedAt);
+    }
+
+    public async showAchievementsQuickPick(): Promise<void> {
+        const statuses = this.getStatuses();
+        const unlockedCount = statuses.filter(s => s.unlock).length;
+
+        const items = statuses
+            .sort((a, b) => (b.unlock?.unlockedAt ?? 0) - (a.unlock?.unlockedAt ?? 0))
+            .map(s => ({
+                label: `${s.unlock ? s.definition.icon : '🔒'} ${s.definition.label}`,
+                description: s.unlock
+                    ? `Unlocked ${new Date(s.unlock.unlockedAt).toLocaleDateString()}`
+                    : s.target !== undefined ? `${s.progress}/${s.target}` : 'Locked',
+                detail: s.definition.description
+            }));
+
+        await vscode.window.showQuickPick(items, {
+            placeHolder: `Achievements (${unlockedCount}/${statuses.length} unlocked)`
+        });
+    }
+
+    // ---- Evaluation ----
+
+    private count(metric: AchievementMetric, amount: number, at: number = Date.now()): void {
+        if (!this.sessionId) return;
+
+        const state = this.readState();
+        this.rollDay(state, at);
+        const hour = new Date(at).getHours();
+        let changed = false;
+
+        for (const def of this.getDefinitions()) {
+            const rule = def.rule;
+            if (rule.kind !== 'count' || rule.metric !== metric || state.unlocked[def.id]) continue;
+            if (rule.beforeHour !== undefined && hour >= rule.beforeHour) continue;
+            if (rule.afterHour !== undefined && hour < rule.afterHour) continue;
+
+            const next = this.currentCount(def, state, at) + amount;
+            this.setCount(def, rule, state, next);
+            changed = true;
+
+            if (next >= rule.target) {
+                this.unlock(def, state, at);
+            }
+        }
+
+        if (changed) this.writeState(state);
+    }
+
+    private handleSessionStopped(record: SessionRecord): void {
+        this.count('sessions', 1, record.endTime);
+
+        const state = this.readState();
+        let changed = false;
+        for (const def of this.getDefinitions()) {
+            if (def.rule.kind === 'session' && !state.unlocked[def.id] && sessionMatches(def.rule, record)) {
+                this.unlock(def, state, record.endTime);
+                changed = true;
+            }
+        }
+        if (changed) this.writeState(state);
+
+        this.sessionId = undefined;
+        this.sessionCounts.clear();
+    }
+
+    private unlock(def: AchievementDefinition, state: AchievementState, at: number): void {
+        state.unlocked[def.id] = { id: def.id, unlockedAt: at, sessionId: this.sessionId };
+        delete state.lifetime[def.id];
+        delete state.day.counts[def.id];
+
+        const badgeId = BadgeStore.createBadgeId(at);
+        this.badgeStore.addBadge({
+            id: badgeId,
+            kind: 'achievement',
+            label: def.label,
+            icon: def.icon,
+            description: def.description,
+            rarity: def.rarity,
+            at,
+            sessionId: this.sessionId,
+            achievementId: def.id,
+            expiresAt: at + badgeClaimWindowMs()
+        }).then(undefined, error => console.error('❌ Failed to save achievement badge:', error));
+
+        console.log(`🏆 Achievement unlocked: ${def.id}`);
+        vscode.window.showInformationMessage(`🏆 Achievement unlocked: ${def.icon} ${def.label} — ${def.description}`, 'Claim Badge')
+            .then(sel => { if (sel) vscode.commands.executeCommand('coding-buddy-bot.claimBadge', badgeId); });
+        BuddyEventBus.getInstance().emit('achievementUnlocked', {
+            id: def.id,
+            label: def.label,
+            description: def.description,
+            icon: def.icon,
+            rarity: def.rarity,
+            at
+        });
+    }
+
+    /** Progress towards a count rule; `day` scope counts only for the local day of `at`. */
+    private currentCount(def: AchievementDefinition, state: AchievementState, at: number): number {
+        const rule = def.rule as CountRule;
+        switch (rule.scope) {
+            case 'session': return this.sessionCounts.get(def.id) || 0;
+            case 'day': return state.day.date === dayKey(at) ? state.day.counts[def.id] || 0 : 0;
+            case 'lifetime': return state.lifetime[def.id] || 0;
+        }
+    }
+
+    private setCount(def: AchievementDefinition, rule: CountRule, state: AchievementState, value: number): void {
+        switch (rule.scope) {
+            case 'session': this.sessionCounts.set(def.id, value); break;
+            case 'day': state.day.counts[def.id] = value; break;
+            case 'lifetime': state.lifetime[def.id] = value; break;
+        }
+    }
+
+    private rollDay(state: AchievementState, at: number): void {
+        const today = dayKey(at);
+        if (state.day.date !== today) {
+            state.day = { date: today, counts: {} };
+        }
+    }
+
+    // ---- Persistence ----
+
+    private readState(): AchievementState {
+        const stored = this.state.get<Partial<AchievementState>>(AchievementEngine.STORAGE_KEY, {});
+        return {
+            unlocked: { ...stored.unlocked },
+            lifetime: { ...stored.lifetime },
+            // no day yet; rollDay starts one from the first counted event's timestamp
+            day: stored.day ? { date: stored.day.date, counts: { ...stored.day.counts } } : { date: '', counts: {} }
+        };
+    }
+
+    private writeState(state: AchievementState): void {
+        this.state.update(AchievementEngine.STORAGE_KEY, state).then(undefined, error => {
+            console.error('❌ Failed to save achievements:', error);
+        });
+    }
+
+    public dispose(): void {
+        this.subscriptions.forEach(d => d.dispose());
+        this.subscriptions = [];
+    }
+}
+
+function sessionMatches(rule: SessionRule, record: SessionRecord): boolean {
+    const activeMinutes = record.durationMs / (1000 * 60);
+    if (rule.minActiveMinutes !== undefined && activeMinutes < rule.minActiveMinutes) return false;
+    // "Without" only means something if emotions were actually read during the session
+    const minSamples = Math.max(rule.withoutEmotion !== undefined ? 1 : 0, rule.minEmotionSamples ?? 0);
+    if (record.emotionTimeline.length < minSamples) return false;
+    if (rule.withoutEmotion !== undefined && record.emotionTimeline.some(e => e.emotion === rule.withoutEmotion)) return false;
+    if (rule.minFocusPercent !== undefined) {
+        const focusPercent = record.durationMs > 0 ? (record.focusTime / record.durationMs) * 100 : 0;
+        if (focusPercent < rule.minFocusPercent) return false;
+    }
+    if (rule.minErrorsFixed !== undefined && record.errorsFixed < rule.minErrorsFixed) return false;
+    if (rule.maxPausedMinutes !== undefined && record.pausedMs / (1000 * 60) > rule.maxPausedMinutes) return false;
+    return true;
+}
+
+function dayKey(at: number): string {
+    const d = new Date(at);
+    return `${d.getFullYear()}-${d.getMonth() + 1}-${d.getDate()}`;
+}
@@ -0,0 +1,168 @@
+import { BadgeRarity } from './badgeStore';
+
+/**
+ * Declarative achievement definitions. Each one is a single rule the engine evaluates
+ * against buddy events; users can add their own via `codingBuddy.achievements.custom`.
+ */
+
+/** Event-driven tallies a `count` rule can track. */
+export type AchievementMetric =
+    | 'errorsFixed'          // errorFixed, weighted by errorCount
+    | 'breakthroughs'        // breakthrough
+    | 'bulkInsertsReviewed'  // bulkInsertReviewed
+    | 'healthTips'           // healthTipShown
+    | 'timeBadges'           // badgeAwarded
+    | 'sessions';            // sessionStopped
+
+export type AchievementScope = 'session' | 'day' | 'lifetime';
+
+/** Unlocks once `metric` reaches `target` within `scope`. */
+export interface CountRule {
+    kind: 'count';
+    metric: AchievementMetric;
+    target: number;
+    scope: AchievementScope;
+    beforeHour?: number; // only events before this local hour (0-23) count
+    afterHour?: number; // only events at or after this local hour count
+}
+
+/** Unlocks when a finished session satisfies every condition given. */
+export interface SessionRule {
+    kind: 'session';
+    minActiveMinutes?: number;
+    withoutEmotion?: string; // no timeline entry with this emotion
+    minEmotionSamples?: number; // emotion readings the timeline must hold; at least 1 with withoutEmotion
+    minFocusPercent?: number;
+    minErrorsFixed?: number;
+    maxPausedMinutes?: number;
+}
+
+export type AchievementRule = CountRule | SessionRule;
+
+export interface AchievementDefinition {
+    id: string;
+    label: string;
+    description: string;
+    icon: string;
+    rarity: BadgeRarity;
+    rule: AchievementRule;
+}
+
+export const BUILT_IN_ACHIEVEMENTS: AchievementDefinition[] = [
+    {
+        id: 'first-session',
+        label: 'Hello, Buddy',
+        description: 'Finish your first coding session',
+        icon: '👋',
+        rarity: 'common',
+        rule: { kind: 'count', metric: 'sessions', target: 1, scope: 'lifetime' }
+    },
+    {
+        id: 'bug-squasher',
+        label: 'Bug Squasher',
+        description: 'Fix 10 errors in one session',
+        icon: '🐛',
+        rarity: 'rare',
+        rule: { kind: 'count', metric: 'errorsFixed', target: 10, scope: 'session' }
+    },
+    {
+        id: 'exterminator',
+        label: 'Exterminator',
+        description: 'Fix 100 errors in total',
+        icon: '🧯',
+        rarity: 'epic',
+        rule: { kind: 'count', metric: 'errorsFixed', target: 100, scope: 'lifetime' }
+    },
+    {
+        id: 'early-bird',
+        label: 'Early Bird',
+        description: 'Have 3 breakthroughs before noon',
+        icon: '🐦',
+        rarity: 'rare',
+        rule: { kind: 'count', metric: 'breakthroughs', target: 3, scope: 'day', beforeHour: 12 }
+    },
+    {
+        id: 'night-owl',
+        label: 'Night Owl',
+        description: 'Have a breakthrough after 10 PM',
+        icon: '🦉',
+        rarity: 'common',
+        rule: { kind: 'count', metric: 'breakthroughs', target: 1, scope: 'day', afterHour: 22 }
+    },
+    {
+        id: 'zen-coder',
+        label: 'Zen Coder',
+        description: 'Finish a session of at least 15 minutes without any frustration',
+        icon: '🧘',
+        rarity: 'rare',
+        rule: { kind: 'session', minActiveMinutes: 15, withoutEmotion: 'frustrated', minEmotionSamples: 10 }
+    },
+    {
+        id: 'deep-focus',
+        label: 'Deep Focus',
+        description: 'Spend at least half of a 30+ minute session focused',
+        icon: '🎯',
+        rarity: 'epic',
+        rule: { kind: 'session', minActiveMinutes: 30, minFocusPercent: 50 }
+    },
+    {
+        id: 'careful-reviewer',
+        label: 'Careful Reviewer',
+        description: 'Read a bulk insert for its full review window before editing',
+        icon: '🔍',
+        rarity: 'common',
+        rule: { kind: 'count', metric: 'bulkInsertsReviewed', target: 1, scope: 'lifetime' }
+    },
+    {
+        id: 'thorough-reviewer',
+        label: 'Thorough Reviewer',
+        description: 'Fully review 25 bulk inserts',
+        icon: '🧐',
+        rarity: 'epic',
+        rule: { kind: 'count', metric: 'bulkInsertsReviewed', target: 25, scope: 'lifetime' }
+    },
+    {
+        id: 'marathon',
+        label: 'Marathon',
+        description: 'Finish 50 sessions',
+        icon: '🏃',
+        rarity: 'legendary',
+        rule: { kind: 'count', metric: 'sessions', target: 50, scope: 'lifetime' }
+    }
+];
+
+const METRICS: AchievementMetric[] = ['errorsFixed', 'breakthroughs', 'bulkInsertsReviewed', 'healthTips', 'timeBadges', 'sessions'];
+const SCOPES: AchievementScope[] = ['session', 'day', 'lifetime'];
+const RARITIES: BadgeRarity[] = ['common', 'rare', 'epic', 'legendary'];
+const SESSION_CONDITIONS: (keyof SessionRule)[] = [
+    'minActiveMinutes', 'withoutEmotion', 'minEmotionSamples', 'minFocusPercent', 'minErrorsFixed', 'maxPausedMinutes'
+];
+
+/**
+ * Checks a user-supplied definition from settings. Returns a reason string when it is
+ * unusable so the caller can log it, or undefined when it is valid.
+ */
+export function validateAchievement(def: any): string | undefined {
+    if (!def || typeof def !== 'object') return 'not an object';
+    if (typeof def.id !== 'string' || !def.id) return 'missing id';
+    if (typeof def.label !== 'string' || !def.label) return `${def.id}: missing label`;
+    if (def.rarity !== undefined && !RARITIES.includes(def.rarity)) return `${def.id}: unknown rarity "${def.rarity}"`;
+
+    const rule = def.rule;
+    if (!rule || typeof rule !== 'object') return `${def.id}: missing rule`;
+
+    if (rule.kind === 'count') {
+        if (!METRICS.includes(rule.metric)) return `${def.id}: unknown metric "${rule.metric}"`;
+        if (!SCOPES.includes(rule.scope)) return `${def.id}: unknown scope "${rule.scope}"`;
+        if (typeof rule.target !== 'number' || rule.target <= 0) return `${def.id}: target must be a positive number`;
+        return undefined;
+    }
+    if (rule.kind === 'session') {
+        // A rule without conditions would unlock on the first session that ends
+        if (!SESSION_CONDITIONS.some(key => rule[key] !== undefined)) {
+            return `${def.id}: session rule needs at least one of ${SESSION_CONDITIONS.join(', ')}`;
+        }
+        return undefined;
+    }
+    return `${def.id}: unknown rule kind "${rule.kind}"`;
+}
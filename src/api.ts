@@ -0,0 +1,83 @@
+import * as vscode from 'vscode';
+import { CodingBuddyBot } from './codingBuddyBot';
+import { BuddyEventBus, BuddyEvents } from './buddyEventBus';
+import { SessionRecord } from './sessionStore';
+import { mapEmotionLabel } from './emotionTaxonomy';
+
+export type BadgeAwardedEvent = BuddyEvents['badgeAwarded'];
+export type BreakthroughEvent = BuddyEvents['breakthrough'];
+export type EmotionDetectedEvent = BuddyEvents['emotionDetected'];
+
+/**
+ * Surface returned from `activate()`; other extensions reach it through
+ * `vscode.extensions.getExtension(...).exports`. Bump `version` on breaking changes.
+ */
+export interface CodingBuddyApi {
+    readonly version: 1;
+
+    startSession(): Promise<void>;
+    stopSession(): Promise<void>;
+    pauseSession(): Promise<void>;
+    resumeSession(): Promise<void>;
+
+    isSessionActive(): boolean;
+    isSessionPaused(): boolean;
+    getLastEmotion(): string;
+    /** Snapshot of the running session, or undefined when none is active. */
+    getCurrentSession(): SessionRecord | undefined;
+
+    onBadgeAwarded(listener: (event: BadgeAwardedEvent) => void): vscode.Disposable;
+    onBreakthrough(listener: (event: BreakthroughEvent) => void): vscode.Disposable;
+    onEmotionDetected(listener: (event: EmotionDetectedEvent) => void): vscode.Disposable;
+
+    /**
+     * Feeds an emotion from your own tooling into the same pipeline as camera detections:
+     * it lands on the session timeline, the bot webview and mood-based theme switching.
+     * Model labels such as "angry" are mapped to buddy emotions through the shared label table.
+     */
+    pushEmotion(emotion: string, confidence: number, reason?: string): void;
+}
+
+export function createCodingBuddyApi(bot: CodingBuddyBot): CodingBuddyApi {
+    const events = BuddyEventBus.getInstance();
+
+    // Go through the commands so API callers get the same UI feedback as the palette
+    const run = async (command: string): Promise<void> => {
+        await vscode.commands.executeCommand(`coding-buddy-bot.${command}`);
+    };
+
+    return {
+        version: 1,
+
+        startSession: () => run('startSession'),
+        stopSession: () => run('stopSession'),
+        pauseSession: () => run('pauseSession'),
+        resumeSession: () => run('resumeSession'),
+
+        isSessionActive: () => bot.isSessionActive(),
+        isSessionPaused: () => bot.isSessionPaused(),
+        getLastEmotion: () => bot.getLastEmotion(),
+        getCurrentSession: () => bot.getCurrentSessionRecord(),
+
+        onBadgeAwarded: (listener) => events.on('badgeAwarded', listener),
+        onBreakthrough: (listener) => events.on('breakthrough', listener),
+        onEmotionDetected: (listener) => events.on('emotionDetected', listener),
+
+        pushEmotion: (emotion, confidence, reason) => {
+            if (typeof emotion !== 'string' || emotion.trim() === '') {
+                throw new Error('pushEmotion: emotion must be a non-empty string');
+            }
+            if (typeof confidence !== 'number' || Number.isNaN(confidence)) {
+                throw new Error('pushEmotion: confidence must be a number between 0 and 1');
+            }
+
+            const clamped = Math.min(1, Math.max(0, confidence));
+            events.emit('emotionDetected', {
+                emotion: mapEmotionLabel(emotion, clamped),
+                confidence: clamped,
+                source: 'external',
+                reason: reason ?? 'Reported by another extension'
+            });
+        }
+    };
+}
@@ -0,0 +1,159 @@
+import * as vscode from 'vscode';
+
+export type ApiKeyProvider = 'roboflow' | 'gemini';
+
+export interface ApiKeyProviderInfo {
+    id: ApiKeyProvider;
+    label: string;
+    usedFor: string;
+    url: string; // where to get a key
+    envVar?: string; // read when no key is stored, e.g. in CI or dev containers
+}
+
+export const API_KEY_PROVIDERS: ApiKeyProviderInfo[] = [
+    { id: 'roboflow', label: 'Roboflow', usedFor: 'cloud emotion detection', url: 'https://app.roboflow.com/settings/api', envVar: 'ROBOFLOW_API_KEY' },
+    { id: 'gemini', label: 'Gemini', usedFor: 'reviewing summaries of pasted code', url: 'https://aistudio.google.com/app/apikey', envVar: 'GEMINI_API_KEY' }
+];
+
+function capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * API keys for the cloud services the buddy talks to, one slot per provider, kept in
+ * VS Code's SecretStorage (the OS keychain) rather than settings or the bundle.
+ * Without a key the feature that needs it stays off.
+ */
+export class ApiKeyStore implements vscode.Disposable {
+    private static instance: ApiKeyStore;
+    private secrets: vscode.SecretStorage | undefined;
+    private secretsListener: vscode.Disposable | undefined;
+    private prompted: Set<ApiKeyProvider> = new Set(); // first-use prompts shown this window
+    private changeEmitter = new vscode.EventEmitter<ApiKeyProvider>();
+
+    /** Fires when a provider's key is set or cleared, in this window or another one. */
+    public readonly onDidChangeKey: vscode.Event<ApiKeyProvider> = this.changeEmitter.event;
+
+    private constructor() {}
+
+    public static getInstance(): ApiKeyStore {
+        if (!ApiKeyStore.instance) {
+            ApiKeyStore.instance = new ApiKeyStore();
+        }
+        return ApiKeyStore.instance;
+    }
+
+    public setSecretStorage(secrets: vscode.SecretStorage): void {
+        this.secretsListener?.dispose();
+        this.secrets = secrets;
+        this.secretsListener = secrets.onDidChange(e => {
+            const provider = API_KEY_PROVIDERS.find(p => ApiKeyStore.secretKey(p.id) === e.key);
+            if (provider) this.changeEmitter.fire(provider.id);
+        });
+    }
+
+    private static secretKey(provider: ApiKeyProvider): string {
+        return `codingBuddy.apiKey.${provider}`;
+    }
+
+    public static getProviderInfo(provider: ApiKeyProvider): ApiKeyProviderInfo {
+        return API_KEY_PROVIDERS.find(p => p.id === provider)!;
+    }
+
+    /** The stored key, else the provider's environment variable, else undefined. */
+    public async getKey(provider: ApiKeyProvider): Promise<string | undefined> {
+        const stored = this.secrets ? await this.secrets.get(ApiKeyStore.secretKey(provider)) : undefined;
+        if (stored) return stored;
+        const envVar = ApiKeyStore.getProviderInfo(provider).envVar;
+        return (envVar && process.env[envVar]) || undefined;
+    }
+
+    public async hasKey(provider: ApiKeyProvider): Promise<boolean> {
+        return (await this.getKey(provider)) !== undefined;
+    }
+
+    public async setKey(provider: ApiKeyProvider, key: string): Promise<void> {
+        if (!this.secrets) throw new Error('Secret storage is not available');
+        await this.secrets.store(ApiKeyStore.secretKey(provider), key.trim());
+    }
+
+    public async clearKey(provider: ApiKeyProvider): Promise<void> {
+        if (!this.secrets) throw new Error('Secret storage is not available');
+        await this.secrets.delete(ApiKeyStore.secretKey(provider));
+    }
+
+    /**
+     * Returns the provider's key, asking for one the first time a feature needs it in this
+     * window. Resolves undefined when the user declines; they are not asked again until reload.
+     */
+    public async requireKey(provider: ApiKeyProvider): Promise<string | undefined> {
+        const existing = await this.getKey(provider);
+        if (existing || this.prompted.has(provider)) return existing;
+        this.prompted.add(provider);
+
+        const info = ApiKeyStore.getProviderInfo(provider);
+        const choice = await vscode.window.showInformationMessage(
+            `🔑 ${capitalize(info.usedFor)} is unavailable without a ${info.label} API key.`,
+            'Set API Key',
+            'Get a Key'
+        );
+        if (choice === 'Get a Key') {
+            vscode.env.openExternal(vscode.Uri.parse(info.url));
+        }
+        if (choice === 'Set API Key' || choice === 'Get a Key') {
+            return this.promptForKey(provider);
+        }
+        return undefined;
+    }
+
+    /** Asks for a key in a password box and stores it. */
+    public async promptForKey(provider: ApiKeyProvider): Promise<string | undefined> {
+        const info = ApiKeyStore.getProviderInfo(provider);
+        const key = await vscode.window.showInputBox({
+            title: `${info.label} API Key`,
+            prompt: `Used for ${info.usedFor}. Stored in your OS keychain. Get one at ${info.url}`,
+            password: true,
+            ignoreFocusOut: true,
+            validateInput: value => value.trim() ? undefined : 'Enter an API key'
+        });
+        if (!key) return undefined;
+
+        await this.setKey(provider, key);
+        vscode.window.showInformationMessage(`🔑 ${info.label} API key saved.`);
+        return key.trim();
+    }
+
+    public async showSetKeyQuickPick(): Promise<void> {
+        const provider = await this.pickProvider('Set which API key?');
+        if (provider) await this.promptForKey(provider);
+    }
+
+    public async showClearKeyQuickPick(): Promise<void> {
+        const provider = await this.pickProvider('Clear which API key?');
+        if (!provider) return;
+
+        await this.clearKey(provider);
+        const info = ApiKeyStore.getProviderInfo(provider);
+        const stillSet = await this.hasKey(provider);
+        vscode.window.showInformationMessage(stillSet && info.envVar
+            ? `🔑 ${info.label} API key cleared; ${info.envVar} is still set in the environment.`
+            : `🔑 ${info.label} API key cleared. ${capitalize(info.usedFor)} is off until a new key is set.`);
+    }
+
+    private async pickProvider(placeHolder: string): Promise<ApiKeyProvider | undefined> {
+        const items = await Promise.all(API_KEY_PROVIDERS.map(async p => ({
+            label: p.label,
+            description: (await this.hasKey(p.id)) ? '✅ Configured' : 'Not set',
+            detail: `Used for ${p.usedFor}`,
+            provider: p.id
+        })));
+        const sel = await vscode.window.showQuickPick(items, { placeHolder });
+        return sel?.provider;
+    }
+
+    public dispose(): void {
+        this.secretsListener?.dispose();
+        this.secretsListener = undefined;
+        this.secrets = undefined;
+    }
+}
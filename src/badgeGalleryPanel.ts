@@ -0,0 +1,423 @@
+import * as vscode from "vscode";
+import { BadgeStore, BadgeRecord, BadgeRarity, isBadgeClaimable } from "./badgeStore";
+import { AchievementEngine, AchievementStatus } from "./achievementEngine";
+import { BuddyEventBus } from "./buddyEventBus";
+
+interface TimeBadgeGroup {
+  label: string;
+  icon: string;
+  description: string;
+  rarity: BadgeRarity;
+  count: number;
+  firstAt: number;
+  lastAt: number;
+}
+
+const RARITY_ORDER: BadgeRarity[] = ["legendary", "epic", "rare", "common"];
+
+/**
+ * Webview showing the lifetime badge collection: achievements (locked ones with
+ * progress), every timed focus badge ever earned, and the most recent unlocks.
+ */
+export class BadgeGalleryPanel implements vscode.Disposable {
+  private static readonly RECENT_LIMIT = 50;
+
+  private panel: vscode.WebviewPanel | undefined;
+  private subscriptions: vscode.Disposable[] = [];
+
+  constructor(
+    private readonly badgeStore: BadgeStore,
+    private readonly achievementEngine: AchievementEngine
+  ) {
+    const events = BuddyEventBus.getInstance();
+    this.subscriptions.push(
+      events.on("badgeAwarded", () => this.render()),
+      events.on("achievementUnlocked", () => this.render()),
+      events.on("badgeClaimed", () => this.render())
+    );
+  }
+
+  public show(): void {
+    if (this.panel) {
+      this.panel.reveal();
+      this.render();
+      return;
+    }
+
+    this.panel = vscode.window.createWebviewPanel(
+      "codingBuddyBadgeGallery",
+      "Badge Gallery",
+      vscode.ViewColumn.One,
+      {
+        enableScripts: true,
+      }
+    );
+
+    this.panel.onDidDispose(() => {
+      this.panel = undefined;
+    });
+
+    this.render();
+  }
+
+  private render(): void {
+    if (!this.panel) {
+      return;
+    }
+
+    const badges = this.badgeStore.getBadges();
+    const statuses = this.achievementEngine.getStatuses();
+    this.panel.webview.html = this.getWebviewContent(badges, statuses);
+  }
+
+  private groupTimeBadges(badges: BadgeRecord[]): TimeBadgeGroup[] {
+    const groups = new Map<string, TimeBadgeGroup>();
+    for (const b of badges) {
+      if (b.kind !== "time") continue;
+      // Labels carry a per-session badge number; group by the milestone reached instead
+      const key = b.minutes !== undefined ? `${b.minutes}-Minute Focus` : b.label;
+      const group = groups.get(key);
+      if (group) {
+        group.count++;
+        group.firstAt = Math.min(group.firstAt, b.at);
+        group.lastAt = Math.max(group.lastAt, b.at);
+      } else {
+        groups.set(key, {
+          label: key,
+          icon: b.icon,
+          description: b.description,
+          rarity: b.rarity,
+          count: 1,
+          firstAt: b.at,
+          lastAt: b.at,
+        });
+      }
+    }
+    return [...groups.values()].sort(
+      (a, b) =>
+        RARITY_ORDER.indexOf(a.rarity) - RARITY_ORDER.indexOf(b.rarity) ||
+        b.lastAt - a.lastAt
+    );
+  }
+
+  private getWebviewContent(
+    badges: BadgeRecord[],
+    statuses: AchievementStatus[]
+  ): string {
+    const unlockedCount = statuses.filter((s) => s.unlock).length;
+    const legendaryCount = badges.filter((b) => b.rarity === "legendary").length;
+    const firstBadge = badges.length ? badges[badges.length - 1] : undefined;
+
+    const achievementCards = statuses
+      .sort(
+        (a, b) =>
+          Number(!!b.unlock) - Number(!!a.unlock) ||
+          RARITY_ORDER.indexOf(a.definition.rarity) -
+            RARITY_ORDER.indexOf(b.definition.rarity)
+      )
+      .map((s) => {
+        const d = s.definition;
+        let footer: string;
+        if (s.unlock) {
+          footer = `Unlocked ${new Date(s.unlock.unlockedAt).toLocaleDateString()}`;
+        } else if (s.target !== undefined) {
+          const pct = Math.round(((s.progress || 0) / s.target) * 100);
+          footer = `
+                        <div class="progress"><div class="progress-fill" style="width: ${pct}%"></div></div>
+                        <div>${s.progress || 0} / ${s.target}</div>`;
+        } else {
+          footer = "Locked";
+        }
+        return `
+                <div class="badge-card ${d.rarity} ${s.unlock ? "" : "locked"}" data-rarity="${d.rarity}">
+                    <div class="badge-icon">${s.unlock ? this.escapeHtml(d.icon) : "🔒"}</div>
+                    <div class="badge-name">${this.escapeHtml(d.label)}</div>
+                    <div class="badge-rarity">${d.rarity}</div>
+                    <div class="badge-desc">${this.escapeHtml(d.description)}</div>
+                    <div class="badge-footer">${footer}</div>
+                </div>`;
+      })
+      .join("");
+
+    const timeCards = this.groupTimeBadges(badges)
+      .map(
+        (g) => `
+                <div class="badge-card ${g.rarity}" data-rarity="${g.rarity}">
+                    <div class="badge-icon">${this.escapeHtml(g.icon)}</div>
+                    <div class="badge-name">${this.escapeHtml(g.label)}</div>
+                    <div class="badge-rarity">${g.rarity}</div>
+                    <div class="badge-desc">${this.escapeHtml(g.description)}</div>
+                    <div class="badge-footer">
+                        Earned ×${g.count}<br>
+                        First ${new Date(g.firstAt).toLocaleDateString()} · Last ${new Date(g.lastAt).toLocaleDateString()}
+                    </div>
+                </div>`
+      )
+      .join("");
+
+    const recentRows = badges
+      .slice(0, BadgeGalleryPanel.RECENT_LIMIT)
+      .map(
+        (b) => `
+                <tr data-rarity="${b.rarity}">
+                    <td>${new Date(b.at).toLocaleString()}</td>
+                    <td>${this.escapeHtml(b.icon)} ${this.escapeHtml(b.label)}</td>
+                    <td class="${b.rarity}-text">${b.rarity}</td>
+                    <td>${b.kind === "achievement" ? "Achievement" : "Focus"}</td>
+                    <td>${this.claimStatus(b)}</td>
+                </tr>`
+      )
+      .join("");
+
+    const empty = (text: string) => `<div class="empty">${text}</div>`;
+
+    return `
+            <!DOCTYPE html>
+            <html lang="en">
+            <head>
+                <meta charset="UTF-8">
+                <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'unsafe-inline';" />
+                <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                <title>Badge Gallery</title>
+                <style>
+                    body {
+                        font-family: 'Rajdhani', 'Segoe UI', monospace;
+                        padding: 20px;
+                        background: linear-gradient(135deg, #0a0a0f 0%, #1a1a2e 50%, #16213e 100%);
+                        color: #00ffff;
+                        min-height: 100vh;
+                    }
+
+                    h1, h2 {
+                        text-transform: uppercase;
+                        letter-spacing: 2px;
+                    }
+
+                    h2 {
+                        color: #ff00ff;
+                        margin-top: 30px;
+                    }
+
+                    .toolbar {
+                        display: flex;
+                        gap: 12px;
+                        align-items: center;
+                        font-size: 12px;
+                        text-transform: uppercase;
+                    }
+
+                    select {
+                        background: rgba(0, 0, 0, 0.4);
+                        color: #00ffff;
+                        border: 1px solid rgba(0, 255, 255, 0.4);
+                        border-radius: 8px;
+                        padding: 6px 10px;
+                        font-family: inherit;
+                    }
+
+                    .totals {
+                        display: grid;
+                        grid-template-columns: repeat(auto-fit, minmax(140px, 1fr));
+                        gap: 12px;
+                        margin-top: 20px;
+                    }
+
+                    .total-card {
+                        padding: 15px;
+                        border-radius: 12px;
+                        text-align: center;
+                        border: 1px solid rgba(255, 0, 255, 0.3);
+                        background: rgba(255, 0, 255, 0.08);
+                    }
+
+                    .total-value {
+                        font-size: 24px;
+                        font-weight: 900;
+                    }
+
+                    .total-label {
+                        font-size: 12px;
+                        opacity: 0.8;
+                        text-transform: uppercase;
+                    }
+
+                    .gallery {
+                        display: grid;
+                        grid-template-columns: repeat(auto-fill, minmax(180px, 1fr));
+                        gap: 14px;
+                        margin-top: 10px;
+                    }
+
+                    .badge-card {
+                        padding: 15px;
+                        border-radius: 15px;
+                        text-align: center;
+                        border: 2px solid;
+                        background: rgba(0, 0, 0, 0.3);
+                    }
+
+                    .badge-card.locked {
+                        opacity: 0.55;
+                        filter: grayscale(0.7);
+                    }
+
+                    .badge-icon {
+                        font-size: 42px;
+                    }
+
+                    .badge-name {
+                        font-weight: 700;
+                        margin-top: 6px;
+                    }
+
+                    .badge-rarity {
+                        font-size: 11px;
+                        text-transform: uppercase;
+                        letter-spacing: 1px;
+                        margin: 4px 0;
+                    }
+
+                    .badge-desc {
+                        font-size: 13px;
+                        opacity: 0.85;
+                    }
+
+                    .badge-footer {
+                        font-size: 12px;
+                        margin-top: 8px;
+                        opacity: 0.8;
+                    }
+
+                    .progress {
+                        height: 6px;
+                        border-radius: 3px;
+                        background: rgba(255, 255, 255, 0.1);
+                        margin: 6px 0 4px;
+                        overflow: hidden;
+                    }
+
+                    .progress-fill {
+                        height: 100%;
+                        background: linear-gradient(90deg, #00ffff, #ff00ff);
+                    }
+
+                    .common { border-color: rgba(180, 180, 180, 0.5); }
+                    .rare { border-color: rgba(0, 200, 255, 0.7); }
+                    .epic { border-color: rgba(255, 0, 255, 0.7); box-shadow: 0 0 12px rgba(255, 0, 255, 0.25); }
+                    .legendary { border-color: rgba(255, 215, 0, 0.9); box-shadow: 0 0 18px rgba(255, 215, 0, 0.35); }
+                    .common .badge-rarity, .common-text { color: #b4b4b4; }
+                    .rare .badge-rarity, .rare-text { color: #00c8ff; }
+                    .epic .badge-rarity, .epic-text { color: #ff00ff; }
+                    .legendary .badge-rarity, .legendary-text { color: #ffd700; }
+
+                    table {
+                        width: 100%;
+                        border-collapse: collapse;
+                        margin-top: 10px;
+                    }
+
+                    th, td {
+                        padding: 8px;
+                        text-align: left;
+                        border-bottom: 1px solid rgba(0, 255, 255, 0.15);
+                    }
+
+                    th {
+                        font-size: 12px;
+                        text-transform: uppercase;
+                        opacity: 0.8;
+                    }
+
+                    .empty {
+                        text-align: center;
+                        opacity: 0.6;
+                        font-style: italic;
+                        padding: 10px;
+                    }
+                </style>
+            </head>
+            <body>
+                <h1>🏅 Badge Gallery</h1>
+
+                <div class="toolbar">
+                    <label>Rarity
+                        <select id="rarity" onchange="filterRarity(this.value)">
+                            <option value="">All</option>
+                            <option value="legendary">Legendary</option>
+                            <option value="epic">Epic</option>
+                            <option value="rare">Rare</option>
+                            <option value="common">Common</option>
+                        </select>
+                    </label>
+                </div>
+
+                <div class="totals">
+                    <div class="total-card">
+                        <div class="total-value">${badges.length}</div>
+                        <div class="total-label">Badges Earned</div>
+                    </div>
+                    <div class="total-card">
+                        <div class="total-value">${unlockedCount}/${statuses.length}</div>
+                        <div class="total-label">Achievements</div>
+                    </div>
+                    <div class="total-card">
+                        <div class="total-value">${legendaryCount}</div>
+                        <div class="total-label">Legendary</div>
+                    </div>
+                    <div class="total-card">
+                        <div class="total-value">${firstBadge ? new Date(firstBadge.at).toLocaleDateString() : "—"}</div>
+                        <div class="total-label">Collecting Since</div>
+                    </div>
+                </div>
+
+                <h2>Achievements</h2>
+                <div class="gallery">
+                    ${achievementCards || empty("No achievements defined.")}
+                </div>
+
+                <h2>Focus Badges</h2>
+                <div class="gallery">
+                    ${timeCards || empty("Keep a session going to earn your first focus badge.")}
+                </div>
+
+                <h2>Recent Unlocks</h2>
+                <table>
+                    <tr><th>Earned</th><th>Badge</th><th>Rarity</th><th>Type</th><th>XP</th></tr>
+                    ${recentRows || `<tr><td colspan="5" class="empty">No badges yet.</td></tr>`}
+                </table>
+
+                <script>
+                    function filterRarity(rarity) {
+                        document.querySelectorAll('[data-rarity]').forEach(function(el) {
+                            el.style.display = !rarity || el.getAttribute('data-rarity') === rarity ? '' : 'none';
+                        });
+                    }
+                </script>
+            </body>
+            </html>
+        `;
+  }
+
+  private claimStatus(b: BadgeRecord): string {
+    if (b.claimedAt !== undefined) return "✅ Claimed";
+    if (isBadgeClaimable(b)) return "🎁 Claimable";
+    return b.expiresAt !== undefined ? "⌛ Expired" : "—";
+  }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&#39;");
+  }
+
+  public dispose(): void {
+    this.subscriptions.forEach((d) => d.dispose());
+    this.subscriptions = [];
+    if (this.panel) {
+      this.panel.dispose();
+    }
+  }
+}
@@ -0,0 +1,160 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { SessionRecord } from './sessionStore';
+import { JsonFile } from './jsonFile';
+
+export type BadgeRarity = 'common' | 'rare' | 'epic' | 'legendary';
+export type BadgeKind = 'time' | 'achievement';
+
+export interface BadgeRecord {
+    id: string;
+    kind: BadgeKind;
+    label: string;
+    icon: string;
+    description: string;
+    rarity: BadgeRarity;
+    at: number; // epoch ms
+    sessionId?: string;
+    achievementId?: string; // achievement badges only
+    minutes?: number; // time badges only: active minutes reached
+    expiresAt?: number; // unclaimed after this, the badge no longer pays out XP
+    claimedAt?: number;
+}
+
+export type BadgeClaimResult = 'claimed' | 'alreadyClaimed' | 'expired' | 'notFound';
+
+export interface BadgeQuery {
+    sessionId?: string;
+    kind?: BadgeKind;
+    limit?: number;
+}
+
+/** Time badges get rarer the longer the stretch of active coding they mark. */
+export function timeBadgeRarity(minutes: number): BadgeRarity {
+    if (minutes >= 240) return 'legendary';
+    if (minutes >= 120) return 'epic';
+    if (minutes >= 60) return 'rare';
+    return 'common';
+}
+
+/** How long a new badge can be claimed for, from `codingBuddy.xp.claimWindowMinutes`. */
+export function badgeClaimWindowMs(): number {
+    const minutes = vscode.workspace.getConfiguration('codingBuddy').get<number>('xp.claimWindowMinutes', 30);
+    return Math.max(1, minutes) * 60 * 1000;
+}
+
+/** Badges from before claiming existed carry no deadline and cannot be claimed. */
+export function isBadgeClaimable(badge: BadgeRecord, now: number = Date.now()): boolean {
+    return badge.claimedAt === undefined && badge.expiresAt !== undefined && now < badge.expiresAt;
+}
+
+/**
+ * Lifetime collection of every badge earned, kept in a JSON file under the extension's
+ * global storage so the gallery and per-session views read the same records. Nothing is
+ * ever dropped; the file is read once at startup and rewritten when a badge changes.
+ */
+export class BadgeStore {
+    private static readonly FILE_NAME = 'badges.json';
+    private static readonly LEGACY_STORAGE_KEY = 'codingBuddy.badges'; // before badges moved to a file
+
+    private readonly file: JsonFile<BadgeRecord[]>;
+    private badges: BadgeRecord[] | undefined; // undefined until the first badge or legacy import
+
+    constructor(private readonly state: vscode.Memento, storageUri: vscode.Uri) {
+        this.file = new JsonFile(path.join(storageUri.fsPath, BadgeStore.FILE_NAME));
+        this.badges = this.file.exists() ? this.file.read() ?? [] : this.migrateFromGlobalState();
+    }
+
+    public static createBadgeId(at: number): string {
+        return `${at.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    }
+
+    public async addBadge(badge: BadgeRecord): Promise<void> {
+        const badges = this.readAll().filter(b => b.id !== badge.id);
+        badges.unshift(badge);
+        badges.sort((a, b) => b.at - a.at);
+        await this.writeAll(badges);
+    }
+
+    /** Badges matching the query, newest first. */
+    public getBadges(query: BadgeQuery = {}): BadgeRecord[] {
+        let badges = this.readAll().filter(b =>
+            (query.sessionId === undefined || b.sessionId === query.sessionId) &&
+            (query.kind === undefined || b.kind === query.kind)
+        );
+        if (query.limit !== undefined) {
+            badges = badges.slice(0, query.limit);
+        }
+        return badges;
+    }
+
+    public async claimBadge(id: string, now: number = Date.now()): Promise<{ result: BadgeClaimResult; badge?: BadgeRecord }> {
+        const badges = this.readAll();
+        const badge = badges.find(b => b.id === id);
+        if (!badge) return { result: 'notFound' };
+        if (badge.claimedAt !== undefined) return { result: 'alreadyClaimed', badge };
+        if (!isBadgeClaimable(badge, now)) return { result: 'expired', badge };
+
+        const claimed = { ...badge, claimedAt: now };
+        await this.writeAll(badges.map(b => b.id === id ? claimed : b));
+        return { result: 'claimed', badge: claimed };
+    }
+
+    /**
+     * One-time import of the time badges that were only recorded inside session history
+     * before badges had their own store.
+     */
+    public async importLegacyBadges(sessions: SessionRecord[]): Promise<void> {
+        if (this.badges !== undefined) return;
+
+        const badges: BadgeRecord[] = [];
+        for (const s of sessions) {
+            for (const b of s.badges) {
+                const minutes = Math.round((b.at - s.startTime) / (1000 * 60));
+                badges.push({
+                    id: BadgeStore.createBadgeId(b.at),
+                    kind: 'time',
+                    label: b.label,
+                    icon: '⏱️',
+                    description: `Coded for ${minutes} minutes in one session`,
+                    rarity: timeBadgeRarity(minutes),
+                    at: b.at,
+                    sessionId: s.id,
+                    minutes
+                });
+            }
+        }
+
+        badges.sort((a, b) => b.at - a.at);
+        await this.writeAll(badges);
+        if (badges.length > 0) {
+            console.log(`🏅 Imported ${badges.length} badge(s) from session history`);
+        }
+    }
+
+    private readAll(): BadgeRecord[] {
+        return [...(this.badges ?? [])];
+    }
+
+    private async writeAll(badges: BadgeRecord[]): Promise<void> {
+        this.badges = badges;
+        await this.file.write(badges);
+    }
+
+    /**
+     * Copies badges saved by older versions out of global state. The old key is only
+     * removed once the file has been written.
+     */
+    private migrateFromGlobalState(): BadgeRecord[] | undefined {
+        const legacy = this.state.get<BadgeRecord[]>(BadgeStore.LEGACY_STORAGE_KEY);
+        if (legacy === undefined) return undefined;
+
+        this.file.write(legacy)
+            .then(() => this.state.update(BadgeStore.LEGACY_STORAGE_KEY, undefined))
+            .then(
+                () => console.log(`🏅 Moved ${legacy.length} badge(s) from global state to ${this.file.filePath}`),
+                error => console.error('❌ Failed to move badges to their file:', error)
+            );
+        return legacy;
+    }
+}
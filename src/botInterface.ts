@@ -1,4 +1,9 @@
 import * as vscode from "vscode";
+import { BuddyEventBus, EnsembleVote } from "./buddyEventBus";
+import { DailyGoalProgress } from "./goalTracker";
+import { LevelProgress, BOT_AVATARS } from "./xpTracker";
+import { EmotionSmoother } from "./emotionSmoother";
+import { getEmotionInfo } from "./emotionTaxonomy";
 
 export class BotInterface {
   private panel: vscode.WebviewPanel | undefined;
@@ -8,6 +13,11 @@ export class BotInterface {
   private focusTime: number = 0;
   private currentReason: string = "Ready to code!";
   private waterReminderTimer: NodeJS.Timeout | undefined;
+  private subscriptions: vscode.Disposable[] = [];
+  private goalProgress: DailyGoalProgress | undefined;
+  private levelProgress: LevelProgress | undefined;
+  private ensemble: EnsembleVote | undefined; // last camera frame's model vote
+  private smoother: EmotionSmoother = new EmotionSmoother("webview");
   private codeStats: {
     lineCount: number;
     errorCount: number;
@@ -22,6 +32,52 @@ export class BotInterface {
 
   constructor() {
     console.log("BotInterface initialized");
+
+    const events = BuddyEventBus.getInstance();
+    this.subscriptions.push(
+      events.on("emotionDetected", ({ emotion, confidence, source, reason, ensemble }) => {
+        if (source === "camera") {
+          this.ensemble = ensemble;
+        }
+        if (confidence > 0.3) {
+          const change = this.smoother.push(emotion, confidence);
+          if (change) {
+            this.updateEmotion(change.emotion, reason);
+          }
+        }
+      }),
+      events.on("sessionStatsChanged", ({ breakthroughCount, focusTime }) => {
+        // The webview owns the visible clock; we only push counts here
+        this.updateSessionStats(0, breakthroughCount, focusTime);
+      }),
+      events.on("goalProgressChanged", (progress) => {
+        this.updateGoalProgress(progress);
+      }),
+      events.on("levelProgressChanged", (progress) => {
+        this.updateLevelProgress(progress);
+      }),
+      events.on("sessionStarted", () => {
+        this.startTimer();
+        this.startWaterReminder();
+      }),
+      events.on("sessionPaused", ({ pausedAt }) => {
+        this.pauseTimer(pausedAt);
+        this.stopWaterReminder();
+      }),
+      events.on("sessionResumed", () => {
+        this.resumeTimer();
+        this.startWaterReminder();
+      }),
+      events.on("sessionStopped", ({ record }) => {
+        this.stopTimer();
+        this.stopWaterReminder();
+        this.updateSessionStats(
+          record.durationMs,
+          record.breakthroughCount,
+          record.focusTime
+        );
+      })
+    );
   }
 
   public showBot(): void {
@@ -59,6 +115,12 @@ export class BotInterface {
           case "stopSession":
             vscode.commands.executeCommand("coding-buddy-bot.stopSession");
             break;
+          case "pauseSession":
+            vscode.commands.executeCommand("coding-buddy-bot.pauseSession");
+            break;
+          case "resumeSession":
+            vscode.commands.executeCommand("coding-buddy-bot.resumeSession");
+            break;
         }
       });
     }
@@ -106,6 +168,70 @@ export class BotInterface {
     this.updateBotInterface();
   }
 
+  // Posted rather than re-rendered: goal progress ticks every minute and a
+  // re-render would reset the running session clock in the webview
+  public updateGoalProgress(progress: DailyGoalProgress): void {
+    this.goalProgress = progress;
+    if (this.panel) {
+      this.panel.webview.postMessage({
+        command: "goalProgress",
+        streak: this.formatStreak(),
+        goal: this.formatGoal(),
+      });
+    }
+  }
+
+  // Posted for the same reason as goal progress
+  public updateLevelProgress(progress: LevelProgress): void {
+    this.levelProgress = progress;
+    if (this.panel) {
+      this.panel.webview.postMessage({
+        command: "levelProgress",
+        avatar: this.getBotEmoji(),
+        level: this.formatLevel(),
+      });
+    }
+  }
+
+  private formatEmotion(): string {
+    const info = getEmotionInfo(this.currentEmotion);
+    return info ? `${info.icon} ${info.label}` : this.currentEmotion;
+  }
+
+  private formatLevel(): string {
+    const p = this.levelProgress;
+    return p ? `⭐ ${p.level} · ${p.xp}/${p.nextLevelXp} XP` : "⭐ 1";
+  }
+
+  private formatEnsemble(): string {
+    const e = this.ensemble;
+    if (!e) return "";
+    const votes = Object.entries(e.modelVotes)
+      .sort((a, b) => b[1] - a[1])
+      .map(([emotion, count]) => `<span class="vote-chip">${emotion} × ${count}</span>`)
+      .join("");
+    return `
+                        <div class="ensemble-display">
+                            🤝 ${Math.round(e.modelAgreement)}% agreement across ${e.modelsResponded} models
+                            <div>${votes}</div>
+                        </div>`;
+  }
+
+  private formatStreak(): string {
+    const p = this.goalProgress;
+    return p ? `🔥 ${p.streak}` : "🔥 0";
+  }
+
+  private formatGoal(): string {
+    const p = this.goalProgress;
+    if (!p) return "—";
+    const parts: string[] = [];
+    if (p.codingGoal > 0) parts.push(`${p.codingMinutes}/${p.codingGoal}m`);
+    if (p.focusGoal > 0) parts.push(`🧠 ${p.focusMinutes}/${p.focusGoal}m`);
+    const text = parts.length ? parts.join(" · ") : `${p.codingMinutes}m`;
+    return p.goalMet ? `✅ ${text}` : text;
+  }
+
   public startTimer(): void {
     if (this.panel) {
       this.panel.webview.postMessage({ command: "startTimer" });
@@ -118,6 +244,18 @@ export class BotInterface {
     }
   }
 
+  public pauseTimer(pausedAt: number = Date.now()): void {
+    if (this.panel) {
+      this.panel.webview.postMessage({ command: "pauseTimer", at: pausedAt });
+    }
+  }
+
+  public resumeTimer(): void {
+    if (this.panel) {
+      this.panel.webview.postMessage({ command: "resumeTimer" });
+    }
+  }
+
   public startWaterReminder(): void {
     this.stopWaterReminder();
 
@@ -314,6 +452,21 @@ export class BotInterface {
                         color: #ff00ff;
                     }
 
+                    .ensemble-display {
+                        font-size: 14px;
+                        margin: 10px 0;
+                        opacity: 0.9;
+                    }
+
+                    .vote-chip {
+                        display: inline-block;
+                        margin: 3px;
+                        padding: 3px 10px;
+                        border-radius: 10px;
+                        border: 1px solid rgba(0, 255, 255, 0.4);
+                        background: rgba(0, 255, 255, 0.08);
+                    }
+
                     .stats-grid {
                         display: grid;
                         grid-template-columns: 1fr;
@@ -620,7 +773,7 @@ export class BotInterface {
             </head>
             <body>
                 <div class="bot-container">
-                    <div class="bot-avatar pulse">
+                    <div class="bot-avatar pulse" id="bot-avatar">
                         ${this.getBotEmoji()}
                     </div>
                     
@@ -630,11 +783,12 @@ export class BotInterface {
                     <div class="bot-status">
                         <h2>Current Status</h2>
                         <div class="emotion-display">
-                            🎭 Feeling: <strong>${this.currentEmotion}</strong>
+                            🎭 Feeling: <strong>${this.formatEmotion()}</strong>
                         </div>
                         <div class="reason-display">
                             💭 ${this.currentReason}
                         </div>
+                        ${this.formatEnsemble()}
                     </div>
                     
                     <div class="stats-grid">
@@ -643,6 +797,18 @@ export class BotInterface {
                             <div class="stat-value" id="session-timer">${displayTime}</div>
                             <div class="stat-label">Session Time</div>
                         </div>
+                        <div class="stat-card">
+                            <div class="stat-value" id="streak-value">${this.formatStreak()}</div>
+                            <div class="stat-label">Day Streak</div>
+                        </div>
+                        <div class="stat-card">
+                            <div class="stat-value" id="goal-value">${this.formatGoal()}</div>
+                            <div class="stat-label">Today's Goal</div>
+                        </div>
+                        <div class="stat-card">
+                            <div class="stat-value" id="level-value">${this.formatLevel()}</div>
+                            <div class="stat-label">Level</div>
+                        </div>
                     </div>
                     
                     <div class="code-analysis">
@@ -667,6 +833,7 @@ export class BotInterface {
                     
                     <div class="controls">
                         <button class="btn" onclick="startSession()" id="start-btn">🚀 Start Session</button>
+                        <button class="btn" onclick="togglePause()" id="pause-btn">⏸️ Pause</button>
                         <button class="btn" onclick="stopSession()" id="stop-btn">⏹️ Stop Session</button>
                     </div>
                     
@@ -683,6 +850,8 @@ export class BotInterface {
                     let timerInterval = null;
                     let sessionStartTime = null;
                     let isTimerRunning = false;
+                    let isTimerPaused = false;
+                    let pausedAt = null;
                     
                     function startSession() {
                         vscodeApi.postMessage({ command: 'startSession' });
@@ -692,6 +861,10 @@ export class BotInterface {
                         vscodeApi.postMessage({ command: 'stopSession' });
                     }
                     
+                    function togglePause() {
+                        vscodeApi.postMessage({ command: isTimerPaused ? 'resumeSession' : 'pauseSession' });
+                    }
+                    
                     function updateTimerDisplay() {
                         if (!sessionStartTime || !isTimerRunning) return;
                         
@@ -719,6 +892,7 @@ export class BotInterface {
                     function startTimer() {
                         sessionStartTime = Date.now();
                         isTimerRunning = true;
+                        isTimerPaused = false;
                         
                         updateTimerDisplay();
                         
@@ -729,12 +903,50 @@ export class BotInterface {
                         
                         const startBtn = document.getElementById('start-btn');
                         const stopBtn = document.getElementById('stop-btn');
+                        const pauseBtn = document.getElementById('pause-btn');
                         if (startBtn) startBtn.disabled = true;
                         if (stopBtn) stopBtn.disabled = false;
+                        if (pauseBtn) {
+                            pauseBtn.disabled = false;
+                            pauseBtn.textContent = '⏸️ Pause';
+                        }
+                    }
+                    
+                    function pauseTimer(at) {
+                        if (!isTimerRunning) return;
+                        isTimerRunning = false;
+                        isTimerPaused = true;
+                        pausedAt = at || Date.now();
+                        
+                        if (timerInterval) {
+                            clearInterval(timerInterval);
+                            timerInterval = null;
+                        }
+                        
+                        const pauseBtn = document.getElementById('pause-btn');
+                        if (pauseBtn) pauseBtn.textContent = '▶️ Resume';
+                    }
+                    
+                    function resumeTimer() {
+                        if (!isTimerPaused) return;
+                        // Shift the start forward so the paused span never shows on the clock
+                        if (sessionStartTime && pausedAt) {
+                            sessionStartTime += Date.now() - pausedAt;
+                        }
+                        isTimerPaused = false;
+                        isTimerRunning = true;
+                        pausedAt = null;
+                        
+                        updateTimerDisplay();
+                        timerInterval = setInterval(updateTimerDisplay, 1000);
+                        
+                        const pauseBtn = document.getElementById('pause-btn');
+                        if (pauseBtn) pauseBtn.textContent = '⏸️ Pause';
                     }
                     
                     function stopTimer() {
                         isTimerRunning = false;
+                        isTimerPaused = false;
                         
                         if (timerInterval) {
                             clearInterval(timerInterval);
@@ -745,6 +957,12 @@ export class BotInterface {
                         const stopBtn = document.getElementById('stop-btn');
                         if (startBtn) startBtn.disabled = false;
                         if (stopBtn) stopBtn.disabled = true;
+                        
+                        const pauseBtn = document.getElementById('pause-btn');
+                        if (pauseBtn) {
+                            pauseBtn.disabled = true;
+                            pauseBtn.textContent = '⏸️ Pause';
+                        }
                     }
                     
                     function addWaterMessage(message) {
@@ -777,17 +995,39 @@ export class BotInterface {
                             case 'stopTimer':
                                 stopTimer();
                                 break;
+                            case 'pauseTimer':
+                                pauseTimer(message.at);
+                                break;
+                            case 'resumeTimer':
+                                resumeTimer();
+                                break;
                             case 'waterReminder':
                                 addWaterMessage(message.message);
                                 break;
+                            case 'goalProgress': {
+                                const streakEl = document.getElementById('streak-value');
+                                const goalEl = document.getElementById('goal-value');
+                                if (streakEl) streakEl.textContent = message.streak;
+                                if (goalEl) goalEl.textContent = message.goal;
+                                break;
+                            }
+                            case 'levelProgress': {
+                                const avatarEl = document.getElementById('bot-avatar');
+                                const levelEl = document.getElementById('level-value');
+                                if (avatarEl) avatarEl.textContent = message.avatar;
+                                if (levelEl) levelEl.textContent = message.level;
+                                break;
+                            }
                         }
                     });
                     
                     document.addEventListener('DOMContentLoaded', function() {
                         const startBtn = document.getElementById('start-btn');
                         const stopBtn = document.getElementById('stop-btn');
+                        const pauseBtn = document.getElementById('pause-btn');
                         if (startBtn) startBtn.disabled = false;
                         if (stopBtn) stopBtn.disabled = true;
+                        if (pauseBtn) pauseBtn.disabled = true;
                     });
                 </script>
             </body>
@@ -795,17 +1035,16 @@ export class BotInterface {
         `;
   }
 
+  // The unlocked avatar the user picked, with its face for the current emotion
   private getBotEmoji(): string {
-    const emojiMap: { [key: string]: string } = {
-      happy: "😊",
-      frustrated: "😤",
-      concerned: "😟",
-    };
-    return emojiMap[this.currentEmotion] || "🤖";
+    const avatar = this.levelProgress?.avatar ?? BOT_AVATARS[0];
+    return avatar.faces[this.currentEmotion] || avatar.neutral;
   }
 
   public dispose(): void {
     this.stopWaterReminder();
+    this.subscriptions.forEach((d) => d.dispose());
+    this.subscriptions = [];
 
     if (this.panel) {
       this.panel.dispose();
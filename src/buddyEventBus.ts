@@ -0,0 +1,86 @@
+import * as vscode from 'vscode';
+import { PauseReason, SessionRecord } from './sessionStore';
+import { DailyGoalProgress } from './goalTracker';
+import { BadgeRarity } from './badgeStore';
+import { LevelProgress, XpReason } from './xpTracker';
+import { ServiceHealthState } from './resilientHttpClient';
+
+export type EmotionSource = 'camera' | 'code' | 'external';
+
+/** How the multi-model ensemble voted on a camera frame. */
+export interface EnsembleVote {
+    modelAgreement: number; // % of responding models that voted for the winner
+    modelVotes: { [emotion: string]: number };
+    modelsResponded: number;
+}
+
+/** Every event the buddy subsystems publish, keyed by name with its payload type. */
+export interface BuddyEvents {
+    sessionStarted: { sessionId: string; startTime: number };
+    sessionPaused: { sessionId: string; reason: PauseReason; pausedAt: number };
+    sessionResumed: { sessionId: string; pausedMs: number };
+    sessionStopped: { record: SessionRecord };
+    sessionStatsChanged: { breakthroughCount: number; focusTime: number; errorsFixed: number };
+    emotionDetected: { emotion: string; confidence: number; source: EmotionSource; reason?: string; ensemble?: EnsembleVote; sampleMs?: number };
+    errorFixed: { errorCount: number; fileName: string };
+    codeErrorsChanged: { fileName: string; errorCount: number; previousErrorCount: number };
+    breakthrough: { count: number; reason: string; at: number };
+    badgeAwarded: { id: string; label: string; at: number; nth: number; rarity: BadgeRarity };
+    healthTipShown: { tipId: string; category: string; message: string; at: number };
+    bulkInsertDetected: { uri: string; chars: number; lines: number; expectedReviewMs: number };
+    bulkInsertReviewed: { uri: string; reviewedMs: number };
+    achievementUnlocked: { id: string; label: string; description: string; icon: string; rarity: BadgeRarity; at: number };
+    goalProgressChanged: DailyGoalProgress;
+    dailyGoalReached: { day: number; streak: number };
+    badgeClaimed: { id: string; label: string; rarity: BadgeRarity; at: number };
+    healthBreakCompleted: { tipId: string; category: string; at: number };
+    xpGained: { amount: number; reason: XpReason; xp: number; level: number; at: number };
+    levelUp: { level: number; at: number };
+    levelProgressChanged: LevelProgress;
+    serviceHealthChanged: { service: string; label: string; state: ServiceHealthState; message: string; retryAt?: number };
+}
+
+export type BuddyEventName = keyof BuddyEvents;
+export type BuddyEventListener<K extends BuddyEventName> = (payload: BuddyEvents[K]) => void;
+
+/**
+ * Process-wide publish/subscribe hub so subsystems react to each other's events
+ * without holding references to one another.
+ */
+export class BuddyEventBus {
+    private static instance: BuddyEventBus;
+    private listeners: Map<BuddyEventName, Set<BuddyEventListener<any>>> = new Map();
+
+    private constructor() {}
+
+    public static getInstance(): BuddyEventBus {
+        if (!BuddyEventBus.instance) {
+            BuddyEventBus.instance = new BuddyEventBus();
+        }
+        return BuddyEventBus.instance;
+    }
+
+    public on<K extends BuddyEventName>(event: K, listener: BuddyEventListener<K>): vscode.Disposable {
+        let set = this.listeners.get(event);
+        if (!set) {
+            set = new Set();
+            this.listeners.set(event, set);
+        }
+        set.add(listener);
+        return new vscode.Disposable(() => { set!.delete(listener); });
+    }
+
+    public emit<K extends BuddyEventName>(event: K, payload: BuddyEvents[K]): void {
+        const set = this.listeners.get(event);
+        if (!set) return;
+
+        // Snapshot so listeners can unsubscribe while we iterate; one failing listener must not starve the rest
+        for (const listener of [...set]) {
+            try {
+                listener(payload);
+            } catch (error) {
+                console.error(`❌ Event listener for "${event}" failed:`, error);
+            }
+        }
+    }
+}
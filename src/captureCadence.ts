@@ -0,0 +1,112 @@
+import * as vscode from 'vscode';
+
+export interface CadenceOptions {
+    baseSeconds: number; // delay between frames while nothing in particular is happening
+    minSeconds: number; // fastest cadence, used right after an error spike
+    maxSeconds: number; // slowest cadence, for long stable stretches
+    unfocusedSeconds: number; // delay while the VS Code window is in the background
+    stableFrames: number; // identical frames in a row before the cadence starts slowing down
+    spikeSeconds: number; // how long an error spike keeps the cadence fast
+}
+
+export const DEFAULT_CADENCE: CadenceOptions = {
+    baseSeconds: 5,
+    minSeconds: 2,
+    maxSeconds: 30,
+    unfocusedSeconds: 20,
+    stableFrames: 3,
+    spikeSeconds: 60
+};
+
+export const DEFAULT_FRAME_BUDGET = 12; // frames per minute, the old fixed 5s cadence
+
+// each further identical frame stretches the delay by this factor
+const STABLE_GROWTH = 1.5;
+
+/**
+ * Decides when the camera loop captures its next frame: slower while the emotion holds
+ * steady or the window is in the background, faster after a burst of new compile errors,
+ * and never more than `codingBuddy.emotion.frameBudgetPerMinute` frames in any minute.
+ * Options come from `codingBuddy.emotion.cadence`.
+ */
+export class CaptureCadence {
+    private frameTimes: number[] = []; // capture times within the last minute
+    private lastEmotion: string | undefined;
+    private stableCount: number = 0;
+    private windowFocused: boolean = true;
+    private spikeUntil: number = 0;
+
+    public getOptions(): CadenceOptions {
+        const configured = vscode.workspace.getConfiguration('codingBuddy')
+            .get<Partial<CadenceOptions>>('emotion.cadence', {});
+        const options = { ...DEFAULT_CADENCE, ...configured };
+        const minSeconds = Math.max(1, options.minSeconds);
+        const maxSeconds = Math.max(minSeconds, options.maxSeconds);
+        const clamp = (value: number) => Math.min(maxSeconds, Math.max(minSeconds, value));
+        return {
+            ...options,
+            minSeconds,
+            maxSeconds,
+            baseSeconds: clamp(options.baseSeconds),
+            unfocusedSeconds: clamp(options.unfocusedSeconds),
+            stableFrames: Math.max(1, Math.floor(options.stableFrames))
+        };
+    }
+
+    public getFrameBudget(): number {
+        const budget = vscode.workspace.getConfiguration('codingBuddy')
+            .get<number>('emotion.frameBudgetPerMinute', DEFAULT_FRAME_BUDGET);
+        return Math.max(1, Math.floor(budget));
+    }
+
+    /** Records a captured frame and its emotion, or undefined when nothing was detected. */
+    public recordFrame(emotion: string | undefined, at: number = Date.now()): void {
+        this.frameTimes.push(at);
+        this.frameTimes = this.frameTimes.filter(t => at - t < 60000);
+        if (emotion === undefined) return;
+
+        this.stableCount = emotion === this.lastEmotion ? this.stableCount + 1 : 1;
+        this.lastEmotion = emotion;
+    }
+
+    public setWindowFocused(focused: boolean): void {
+        this.windowFocused = focused;
+    }
+
+    /** New compile errors appeared; sample quickly for a while to catch the reaction. */
+    public noteErrorSpike(at: number = Date.now()): void {
+        this.spikeUntil = at + this.getOptions().spikeSeconds * 1000;
+        this.stableCount = 0;
+    }
+
+    /** Milliseconds from the previous capture to the next one. */
+    public nextDelayMs(now: number = Date.now()): number {
+        const options = this.getOptions();
+
+        let seconds: number;
+        if (now < this.spikeUntil) {
+            seconds = options.minSeconds;
+        } else if (!this.windowFocused) {
+            seconds = options.unfocusedSeconds;
+        } else {
+            const extraStable = Math.max(0, this.stableCount - options.stableFrames + 1);
+            seconds = Math.min(options.maxSeconds, options.baseSeconds * Math.pow(STABLE_GROWTH, extraStable));
+        }
+        let delay = seconds * 1000;
+
+        // The budget wins over everything else: once a minute's frames are spent, wait for the oldest to age out
+        const recent = this.frameTimes.filter(t => now - t < 60000);
+        if (recent.length >= this.getFrameBudget()) {
+            const last = recent[recent.length - 1];
+            delay = Math.max(delay, recent[recent.length - this.getFrameBudget()] + 60000 - last);
+        }
+        return Math.round(delay);
+    }
+
+    /** Forgets the stable streak and spike, e.g. when a session starts or resumes. */
+    public reset(): void {
+        this.lastEmotion = undefined;
+        this.stableCount = 0;
+        this.spikeUntil = 0;
+    }
+}
@@ -1,6 +1,7 @@
 import * as vscode from "vscode";
 import * as fs from "fs";
 import * as path from "path";
+import { BuddyEventBus } from "./buddyEventBus";
 
 export interface CodeAnalysisResult {
   hasErrors: boolean;
@@ -16,30 +17,13 @@ export class CodeAnalyzer {
   private fileWatcher: vscode.FileSystemWatcher | undefined;
   private currentFile: string | undefined;
   private analysisResults: Map<string, CodeAnalysisResult> = new Map();
-  private onEmotionChange:
-    | ((emotion: string, reason: string) => void)
-    | undefined;
-  private onErrorFix:
-    | ((errorCount: number, fileName: string) => void)
-    | undefined;
+  private events = BuddyEventBus.getInstance();
 
   constructor() {
     console.log("CodeAnalyzer initialized");
     this.setupFileWatcher();
   }
 
-  public setEmotionCallback(
-    callback: (emotion: string, reason: string) => void
-  ): void {
-    this.onEmotionChange = callback;
-  }
-
-  public setErrorFixCallback(
-    callback: (errorCount: number, fileName: string) => void
-  ): void {
-    this.onErrorFix = callback;
-  }
-
   private setupFileWatcher(): void {
     console.log("🔧 Setting up file watchers...");
 
@@ -475,8 +459,6 @@ export class CodeAnalyzer {
     fileName: string,
     previousResult?: CodeAnalysisResult
   ): void {
-    if (!this.onEmotionChange) return;
-
     let emotion: string;
     let reason: string;
 
@@ -484,6 +466,14 @@ export class CodeAnalyzer {
     const baseline = previousResult ?? this.analysisResults.get(fileName);
     const errorsJustFixed = baseline && baseline.hasErrors && !result.hasErrors;
 
+    if (baseline && baseline.errorCount !== result.errorCount) {
+      this.events.emit("codeErrorsChanged", {
+        fileName: path.basename(fileName),
+        errorCount: result.errorCount,
+        previousErrorCount: baseline.errorCount,
+      });
+    }
+
     if (errorsJustFixed) {
       // 🎉 CELEBRATE THE WIN! Errors were fixed!
       emotion = "happy";
@@ -494,13 +484,13 @@ export class CodeAnalyzer {
         reason = `🎉 NICE! You just fixed that error in ${path.basename(fileName)}! Your debugging game is strong! 🔥`;
       }
       
-      // Call celebration callback if available
-      if (this.onErrorFix) {
-        this.onErrorFix(fixedCount, path.basename(fileName));
-      }
-      
+      this.events.emit("errorFixed", {
+        errorCount: fixedCount,
+        fileName: path.basename(fileName),
+      });
+
       console.log(`🎉 ERROR FIXED! ${emotion} - ${reason}`);
-      this.onEmotionChange(emotion, reason);
+      this.publishEmotion(emotion, reason);
       return;
     }
 
@@ -530,10 +520,20 @@ export class CodeAnalyzer {
       baseline.lineCount !== result.lineCount
     ) {
       console.log(`🎭 Emotion change: ${emotion} - ${reason}`);
-      this.onEmotionChange(emotion, reason);
+      this.publishEmotion(emotion, reason);
     }
   }
 
+  // Code-derived emotions are deterministic, so they carry a fixed high confidence
+  private publishEmotion(emotion: string, reason: string): void {
+    this.events.emit("emotionDetected", {
+      emotion,
+      confidence: 0.8,
+      source: "code",
+      reason,
+    });
+  }
+
   public getCurrentAnalysis(): CodeAnalysisResult | undefined {
     if (!this.currentFile) return undefined;
     return this.analysisResults.get(this.currentFile);
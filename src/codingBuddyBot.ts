@@ -2,7 +2,12 @@ import * as vscode from 'vscode';
 import { EmotionDetector } from './emotionDetector';
 import { MotivationalFeedback } from './motivationalFeedback';
 import { HealthMonitor } from './healthMonitor';
-import { ThemeManager } from './themeManager';
+import { SessionStore, SessionRecord, EmotionEvent, PauseReason, PauseSpan } from './sessionStore';
+import { BuddyEventBus } from './buddyEventBus';
+import { BadgeStore, BadgeRecord, timeBadgeRarity, badgeClaimWindowMs, isBadgeClaimable } from './badgeStore';
+import { buildReport, ReportFormat, REPORT_FILE_EXTENSIONS } from './sessionReport';
+import { EmotionSmoother } from './emotionSmoother';
+import { DEFAULT_CADENCE } from './captureCadence';
 
 export class CodingBuddyBot {
     private emotionDetector: EmotionDetector;
@@ -11,16 +16,27 @@ export class CodingBuddyBot {
 
     private isActive: boolean = false;
     private isCameraActive: boolean = false;
+    private isPaused: boolean = false;
     private sessionStartTime: number = 0;
+    private pausedAt: number = 0;
+    private pausedMs: number = 0;
+    private pauseReason: PauseReason = 'manual';
+    private pauseSpans: PauseSpan[] = [];
     private lastEmotionTime: number = 0;
     private emotionChangeCount: number = 0;
     private focusTime: number = 0;
     private frustrationTime: number = 0;
     private breakthroughCount: number = 0;
-
-    private botInterface: any = null; // for webview emotion updates
-    private themeManager: ThemeManager;
+    private errorsFixed: number = 0;
+    private sessionId: string = '';
+    private emotionTimeline: EmotionEvent[] = [];
+
+    private sessionStore: SessionStore | undefined;
+    private badgeStore: BadgeStore | undefined;
+    private events: BuddyEventBus = BuddyEventBus.getInstance();
+    private subscriptions: vscode.Disposable[] = [];
     private lastEmotion: string = 'unknown';
+    private notificationSmoother: EmotionSmoother = new EmotionSmoother('notifications');
 
     // ---- Badge tracking / timing ----
     private badgeTimeout: NodeJS.Timeout | undefined;
@@ -28,8 +44,6 @@ export class CodingBuddyBot {
     private badgeIntervalMinutes: number = 60; // real interval (minutes)
     private readonly __TEST_BADGE_INTERVAL__ = false; // set true only if you want ~6s badges
 
-    private badgesThisSession: { label: string; at: number }[] = [];
-
     // ---- Lightweight UI for badges (no custom webview) ----
     private badgeStatusItem: vscode.StatusBarItem | undefined;
     private badgeOutput: vscode.OutputChannel | undefined;
@@ -38,7 +52,16 @@ export class CodingBuddyBot {
         this.emotionDetector = new EmotionDetector();
         this.motivationalFeedback = new MotivationalFeedback();
         this.healthMonitor = new HealthMonitor();
-        this.themeManager = ThemeManager.getInstance();
+
+        this.subscriptions.push(
+            this.events.on('emotionDetected', ({ emotion, confidence, source, sampleMs }) => {
+                // code-derived moods drive the webview only; camera and API signals shape the session
+                if (source !== 'code') this.handleEmotionChange(emotion, confidence, sampleMs);
+            }),
+            this.events.on('errorFixed', ({ errorCount, fileName }) => {
+                this.celebrateErrorFix(errorCount, fileName);
+            })
+        );
     }
 
     // Call once from activate()
@@ -53,7 +76,7 @@ export class CodingBuddyBot {
 
     private updateBadgeStatusItem() {
         if (this.badgeStatusItem) {
-            this.badgeStatusItem.text = `🏅 ${this.badgesThisSession.length}`;
+            this.badgeStatusItem.text = `🏅 ${this.getBadgesThisSession().length}`;
         }
     }
 
@@ -61,15 +84,18 @@ export class CodingBuddyBot {
     public setBadgeIntervalMinutes(mins: number) {
         if (mins <= 0) return;
         this.badgeIntervalMinutes = mins;
-        // only restart if already in a session
-        if (this.isActive) {
+        // only restart if already in a running session
+        if (this.isActive && !this.isPaused) {
             this.stopBadgeClock();
             this.startBadgeClock();
         }
     }
 
+    /** Badges (timed and achievements) earned in the current or most recent session, newest first. */
     public getBadgesThisSession(): { label: string; at: number }[] {
-        return [...this.badgesThisSession];
+        if (!this.badgeStore || !this.sessionId) return [];
+        return this.badgeStore.getBadges({ sessionId: this.sessionId })
+            .map(b => ({ label: b.kind === 'achievement' ? `${b.icon} ${b.label}` : b.label, at: b.at }));
     }
 
     // ---- Public session controls ----
@@ -79,15 +105,25 @@ export class CodingBuddyBot {
 
         this.isActive = true;
         this.sessionStartTime = Date.now();
+        this.sessionId = SessionStore.createSessionId(this.sessionStartTime);
+        this.isPaused = false;
+        this.pausedMs = 0;
+        this.pauseSpans = [];
+        this.emotionTimeline = [];
+        this.notificationSmoother.reset();
         this.emotionChangeCount = 0;
+        this.lastEmotionTime = 0;
         this.focusTime = 0;
         this.frustrationTime = 0;
         this.breakthroughCount = 0;
+        this.errorsFixed = 0;
 
-        // reset per-session badges
-        this.badgesThisSession = [];
+        // new session id means a fresh badge count
         this.updateBadgeStatusItem();
 
+        this.events.emit('sessionStarted', { sessionId: this.sessionId, startTime: this.sessionStartTime });
+        this.emitStats();
+
         vscode.window.showInformationMessage('🎯 Starting your coding session! I\'ll be here to cheer you on!');
 
         // read interval from settings (fallback 60)
@@ -109,6 +145,10 @@ export class CodingBuddyBot {
         // stop badge scheduling first so nothing fires after stop
         this.stopBadgeClock();
 
+        if (this.isPaused) {
+            this.closePauseSpan();
+        }
+
         this.isActive = false;
         this.isCameraActive = false;
 
@@ -116,6 +156,58 @@ export class CodingBuddyBot {
         this.healthMonitor.stopMonitoring();
 
         this.showSessionSummary();
+        this.events.emit('sessionStopped', { record: this.buildSessionRecord() });
+    }
+
+    /**
+     * `since` lets idle detection backdate the pause to the last real activity,
+     * so the idle threshold itself is not counted as work.
+     */
+    public pauseSession(reason: PauseReason = 'manual', since: number = Date.now()): void {
+        if (!this.isActive || this.isPaused) return;
+
+        const lastPauseEnd = this.pauseSpans.length ? this.pauseSpans[this.pauseSpans.length - 1].end : 0;
+        this.isPaused = true;
+        this.pausedAt = Math.min(Date.now(), Math.max(since, this.sessionStartTime, lastPauseEnd));
+        this.pauseReason = reason;
+
+        // freeze the badge clock, health timers and camera polling
+        this.stopBadgeClock();
+        this.healthMonitor.pauseMonitoring();
+        this.emotionDetector.pauseDetection();
+
+        this.events.emit('sessionPaused', { sessionId: this.sessionId, reason, pausedAt: this.pausedAt });
+        console.log(`⏸️ Session paused (${reason})`);
+    }
+
+    public resumeSession(): void {
+        if (!this.isActive || !this.isPaused) return;
+
+        const span = this.closePauseSpan();
+
+        this.healthMonitor.resumeMonitoring();
+        this.emotionDetector.resumeDetection();
+        this.startBadgeClock();
+
+        this.events.emit('sessionResumed', { sessionId: this.sessionId, pausedMs: span.end - span.start });
+        console.log('▶️ Session resumed');
+    }
+
+    private closePauseSpan(): PauseSpan {
+        const now = Date.now();
+        const span: PauseSpan = { start: this.pausedAt, end: now, reason: this.pauseReason };
+        this.pausedMs += now - this.pausedAt;
+        this.pauseSpans.push(span);
+        this.isPaused = false;
+        return span;
+    }
+
+    /** Session time excluding paused spans. */
+    public getActiveDuration(): number {
+        if (!this.sessionStartTime) return 0;
+        const now = Date.now();
+        const currentPause = this.isPaused ? now - this.pausedAt : 0;
+        return Math.max(0, now - this.sessionStartTime - this.pausedMs - currentPause);
     }
 
     public async toggleCamera(): Promise<void> {
@@ -136,10 +228,14 @@ export class CodingBuddyBot {
     }
 
     public isSessionActive(): boolean { return this.isActive; }
+    public isSessionPaused(): boolean { return this.isActive && this.isPaused; }
+    public getPauseReason(): PauseReason | undefined { return this.isSessionPaused() ? this.pauseReason : undefined; }
+    public getPausedAt(): number | undefined { return this.isSessionPaused() ? this.pausedAt : undefined; }
     public getCameraActive(): boolean { return this.isCameraActive; }
     public getLastEmotion(): string { return this.lastEmotion || 'unknown'; }
     public getEmotionDetector(): any { return this.emotionDetector; }
-    public setBotInterface(botInterface: any): void { this.botInterface = botInterface; }
+    public setSessionStore(store: SessionStore): void { this.sessionStore = store; }
+    public setBadgeStore(store: BadgeStore): void { this.badgeStore = store; }
 
     public async testWebcam(): Promise<void> {
         try {
@@ -193,21 +289,28 @@ export class CodingBuddyBot {
         if (!this.isCameraActive) return;
 
         try {
-            await this.emotionDetector.startDetection((emotion: string, confidence: number) => {
-                this.handleEmotionChange(emotion, confidence);
-            });
+            await this.emotionDetector.startDetection();
+            // camera switched on mid-pause: keep polling frozen until resume
+            if (this.isPaused) {
+                this.emotionDetector.pauseDetection();
+            }
         } catch (error) {
             vscode.window.showErrorMessage('Failed to start camera. Please check your webcam permissions.');
             this.isCameraActive = false;
         }
     }
 
-    private handleEmotionChange(emotion: string, confidence: number): void {
+    private handleEmotionChange(emotion: string, confidence: number, sampleMs?: number): void {
         console.log(`[ROBOFLOW] Emotion detected: ${emotion} (confidence: ${Math.round(confidence * 100)}%)`);
+        if (this.isPaused) return;
+
+        // Popups follow the smoothed emotion, so one odd frame never triggers one
+        const change = this.notificationSmoother.push(emotion, confidence);
 
         // Only show notifications for high-confidence detections AND when session is active
-        if (confidence > 0.3 && this.isActive) {
-            switch (emotion) {
+        if (change && change.confidence > 0.3 && this.isActive) {
+            const confidence = change.confidence;
+            switch (change.emotion) {
                 case 'happy':
                     vscode.window.showInformationMessage(`😊 I can see you're happy! Your positive energy is contagious! (${Math.round(confidence * 100)}% confidence)`);
                     break;
@@ -228,25 +331,23 @@ export class CodingBuddyBot {
             }
         }
 
+        // Camera frames say how long they stand for; other sources count the time since the last emotion
+        const now = Date.now();
+        const elapsed = sampleMs
+            ?? (this.lastEmotionTime ? Math.min(now - this.lastEmotionTime, DEFAULT_CADENCE.maxSeconds * 1000) : 0);
+
         // Update emotion tracking
-        this.lastEmotionTime = Date.now();
+        this.lastEmotionTime = now;
         this.emotionChangeCount++;
         this.lastEmotion = emotion;
+        this.emotionTimeline.push({ emotion, confidence, at: this.lastEmotionTime });
 
         // Track focus time
         if (emotion === 'focused') {
-            this.focusTime += 5000; // ~5s polling cadence
-        }
-
-        // Update bot interface webview with emotion
-        if (this.botInterface && confidence > 0.3) {
-            const reason = `Detected via camera (${Math.round(confidence * 100)}% confidence)`;
-            this.botInterface.updateEmotion(emotion, reason);
+            this.focusTime += elapsed;
+            this.emitStats();
         }
 
-        // Theme switching
-        this.themeManager.handleEmotionChange(emotion, confidence);
-
         // Optional: low-frequency encouragement (kept low to avoid spam)
         this.provideRealTimeFeedback(emotion, confidence);
     }
@@ -282,6 +383,13 @@ export class CodingBuddyBot {
         
         // Increment breakthrough count for fixing errors
         this.breakthroughCount++;
+        this.errorsFixed += errorCount;
+        this.emitStats();
+        this.events.emit('breakthrough', {
+            count: this.breakthroughCount,
+            reason: `Fixed ${errorCount} error${errorCount > 1 ? 's' : ''} in ${fileName}`,
+            at: Date.now()
+        });
         
         const celebrations = [
             `🎉 VICTORY! You just debugged ${errorCount} error${errorCount > 1 ? 's' : ''} in ${fileName}! That's ownership! 💪`,
@@ -321,16 +429,24 @@ export class CodingBuddyBot {
     // ---- Session summary ----
 
     private showSessionSummary(): void {
-        const sessionDuration = Date.now() - this.sessionStartTime;
+        const sessionDuration = this.getActiveDuration();
         const minutes = Math.floor(sessionDuration / (1000 * 60));
+        const focusPercent = sessionDuration > 0 ? Math.round((this.focusTime / sessionDuration) * 100) : 0;
 
         let summary = `🎯 Session Summary (${minutes} minutes):\n`;
         summary += `• Emotions detected: ${this.emotionChangeCount}\n`;
         summary += `• Breakthroughs: ${this.breakthroughCount}\n`;
-        summary += `• Focus time: ${Math.floor(this.focusTime / (1000 * 60))} minutes\n`;
-        summary += `• Badges earned: ${this.badgesThisSession.length}\n`;
+        summary += `• Focus time: ${Math.floor(this.focusTime / (1000 * 60))} minutes (${focusPercent}%)\n`;
+        if (this.pausedMs > 0) {
+            const idleMs = this.pauseSpans
+                .filter(span => span.reason === 'idle')
+                .reduce((sum, span) => sum + (span.end - span.start), 0);
+            summary += `• Paused: ${Math.floor(this.pausedMs / (1000 * 60))} minutes (${Math.floor(idleMs / (1000 * 60))} idle)\n`;
+        }
+        const badges = this.getBadgesThisSession();
+        summary += `• Badges earned: ${badges.length}\n`;
 
-        const recent = this.badgesThisSession.slice(0, 3)
+        const recent = badges.slice(0, 3)
             .map(b => new Date(b.at).toLocaleTimeString())
             .join(", ");
         if (recent) summary += `• Recent badges: ${recent}\n`;
@@ -338,11 +454,92 @@ export class CodingBuddyBot {
         vscode.window.showInformationMessage(summary);
     }
 
+    private emitStats(): void {
+        this.events.emit('sessionStatsChanged', {
+            breakthroughCount: this.breakthroughCount,
+            focusTime: this.focusTime,
+            errorsFixed: this.errorsFixed
+        });
+    }
+
+    // ---- Session history ----
+
+    private buildSessionRecord(): SessionRecord {
+        const endTime = Date.now();
+        const health = this.healthMonitor.getHealthStats();
+
+        return {
+            id: this.sessionId,
+            startTime: this.sessionStartTime,
+            endTime,
+            durationMs: this.getActiveDuration(),
+            pausedMs: this.pausedMs + (this.isPaused ? endTime - this.pausedAt : 0),
+            pauseSpans: [...this.pauseSpans],
+            workspace: vscode.workspace.name || 'No Workspace',
+            focusTime: this.focusTime,
+            breakthroughCount: this.breakthroughCount,
+            errorsFixed: this.errorsFixed,
+            emotionChangeCount: this.emotionChangeCount,
+            emotionTimeline: [...this.emotionTimeline],
+            badges: this.getBadgesThisSession(),
+            healthStats: {
+                stretchCount: health.stretchCount,
+                waterReminderCount: health.waterReminderCount,
+                postureReminderCount: health.postureReminderCount
+            }
+        };
+    }
+
+    /** Snapshot of the in-progress session, or undefined when no session is running. */
+    public getCurrentSessionRecord(): SessionRecord | undefined {
+        return this.isActive ? this.buildSessionRecord() : undefined;
+    }
+
+    public async exportSessionReport(): Promise<void> {
+        const formatPick = await vscode.window.showQuickPick(
+            [
+                { label: 'CSV', description: 'Spreadsheet-friendly table', format: 'csv' as ReportFormat },
+                { label: 'JSON Lines', description: 'One JSON record per line', format: 'jsonl' as ReportFormat },
+                { label: 'Markdown', description: 'Human-readable report for retros', format: 'markdown' as ReportFormat }
+            ],
+            { placeHolder: 'Export session report as...' }
+        );
+        if (!formatPick) return;
+
+        const sessions = this.sessionStore ? this.sessionStore.getSessions() : [];
+        const current = this.getCurrentSessionRecord();
+        if (current) sessions.unshift(current);
+
+        if (sessions.length === 0) {
+            vscode.window.showInformationMessage('No sessions to export yet. Start a session first!');
+            return;
+        }
+
+        const extension = REPORT_FILE_EXTENSIONS[formatPick.format];
+        const defaultName = `coding-buddy-report-${new Date().toISOString().slice(0, 10)}.${extension}`;
+        const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: defaultFolder ? vscode.Uri.joinPath(defaultFolder, defaultName) : undefined,
+            filters: { [formatPick.label]: [extension] },
+            saveLabel: 'Export Report'
+        });
+        if (!target) return;
+
+        try {
+            const content = buildReport(sessions, formatPick.format);
+            await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+            vscode.window.showInformationMessage(`📄 Exported ${sessions.length} session(s) to ${target.fsPath}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to export session report: ${error}`);
+        }
+    }
+
     // ---- Badge clock (drift-free + hard guards) ----
 
     private startBadgeClock(): void {
         if (!this.isActive) { console.log("⛔ startBadgeClock: session not active"); return; }
         if (!this.sessionStartTime) { console.log("⛔ startBadgeClock: no sessionStartTime"); return; }
+        if (this.isPaused) { console.log("⏸️ startBadgeClock: session paused"); return; }
         if (this.badgeClockRunning) { console.log("ℹ️ startBadgeClock: already running"); return; }
 
         this.badgeClockRunning = true;
@@ -367,17 +564,17 @@ export class CodingBuddyBot {
     private scheduleNextBadge(): void {
         if (!this.isActive) { this.stopBadgeClock(); return; }
         if (!this.sessionStartTime) { this.stopBadgeClock(); return; }
+        if (this.isPaused) { this.stopBadgeClock(); return; }
 
-        const now = Date.now();
+        // measured in active time so paused spans never count toward a badge
         const intervalMs = this.badgeIntervalMinutes * 60 * 1000;
-        const elapsed = now - this.sessionStartTime;
+        const elapsed = this.getActiveDuration();
 
         const k = Math.floor(elapsed / intervalMs) + 1; // next whole multiple
-        const nextAt = this.sessionStartTime + k * intervalMs;
-        const delay = Math.max(0, nextAt - now);
+        const delay = Math.max(0, k * intervalMs - elapsed);
 
         this.badgeTimeout = setTimeout(() => {
-            if (!this.isActive) { this.stopBadgeClock(); return; }
+            if (!this.isActive || this.isPaused) { this.stopBadgeClock(); return; }
             this.awardTimeBadge(k);
             this.scheduleNextBadge();
         }, delay);
@@ -394,35 +591,93 @@ export class CodingBuddyBot {
         const base = `Focus +${this.badgeIntervalMinutes} min (Badge #${nth})`;
         const label = customName ? `🏅 ${customName} (+${this.badgeIntervalMinutes} min)` : `⏱️ ${base}`;
         const at = Date.now();
-
-        this.badgesThisSession.unshift({ label, at });
-        if (this.badgesThisSession.length > 200) this.badgesThisSession.length = 200;
+        const minutes = Math.round(nth * this.badgeIntervalMinutes);
+        const id = BadgeStore.createBadgeId(at);
+        const rarity = timeBadgeRarity(minutes);
+
+        this.badgeStore?.addBadge({
+            id,
+            kind: 'time',
+            label,
+            icon: customName ? '🏅' : '⏱️',
+            description: `Coded for ${minutes} minutes in one session`,
+            rarity,
+            at,
+            sessionId: this.sessionId,
+            minutes,
+            expiresAt: at + badgeClaimWindowMs()
+        }).then(undefined, error => console.error('❌ Failed to save badge:', error));
 
         this.updateBadgeStatusItem();
+        this.events.emit('badgeAwarded', { id, label, at, nth, rarity });
 
         vscode.window.showInformationMessage(`🏅 ${label}`, "Claim Badge")
-            .then(sel => { if (sel === "Claim Badge") this.claimBadge(); });
+            .then(sel => { if (sel === "Claim Badge") this.claimBadge(id); });
     }
 
-    private claimBadge(): void {
-        vscode.window.showInformationMessage("🎉 Badge claimed! Keep up the great work!");
-        console.log("🏆 Badge claimed by the user");
+    /** Claims a badge for XP; without an id, lets the user pick from the ones still claimable. */
+    public async claimBadge(id?: string): Promise<void> {
+        if (!this.badgeStore) return;
+
+        if (!id) {
+            const claimable = this.badgeStore.getBadges().filter(b => isBadgeClaimable(b));
+            if (claimable.length === 0) {
+                vscode.window.showInformationMessage("No badges waiting to be claimed.");
+                return;
+            }
+            const sel = await vscode.window.showQuickPick(
+                claimable.map(b => ({
+                    label: b.kind === 'achievement' ? `${b.icon} ${b.label}` : b.label,
+                    description: `${b.rarity} · expires ${new Date(b.expiresAt!).toLocaleTimeString()}`,
+                    id: b.id
+                })),
+                { placeHolder: "Claim a badge" }
+            );
+            if (!sel) return;
+            id = sel.id;
+        }
+
+        const { result, badge } = await this.badgeStore.claimBadge(id);
+        switch (result) {
+            case 'claimed':
+                console.log(`🏆 Badge claimed by the user: ${badge!.label}`);
+                this.events.emit('badgeClaimed', { id, label: badge!.label, rarity: badge!.rarity, at: badge!.claimedAt! });
+                break;
+            case 'alreadyClaimed':
+                vscode.window.showInformationMessage("You've already claimed this badge.");
+                break;
+            case 'expired':
+                vscode.window.showWarningMessage("⌛ This badge expired before it was claimed. Claim new badges sooner to earn XP!");
+                break;
+            case 'notFound':
+                console.warn(`⚠️ claimBadge: unknown badge ${id}`);
+                break;
+        }
     }
 
     // ---- Badge viewers (no new custom UI) ----
 
     public showBadgeHistoryQuickPick(): void {
-        if (this.badgesThisSession.length === 0) {
-            vscode.window.showInformationMessage("No badges earned this session yet.");
-            return;
-        }
-        const items = this.badgesThisSession.map(b => ({
-            label: b.label,
-            description: new Date(b.at).toLocaleTimeString()
-        }));
+        const galleryItem = { label: "$(star-full) Open Badge Gallery…", description: "Every badge you've ever earned" };
+        const sessionBadges = this.badgeStore && this.sessionId ? this.badgeStore.getBadges({ sessionId: this.sessionId }) : [];
+        const items: (vscode.QuickPickItem & { badge?: BadgeRecord })[] = [
+            galleryItem,
+            ...sessionBadges.map(b => ({
+                label: b.kind === 'achievement' ? `${b.icon} ${b.label}` : b.label,
+                description: new Date(b.at).toLocaleTimeString() +
+                    (isBadgeClaimable(b) ? " · 🎁 select to claim" : b.claimedAt !== undefined ? " · claimed" : ""),
+                badge: b
+            }))
+        ];
         vscode.window.showQuickPick(items, {
-            placeHolder: "Badges this session (newest first)"
-        }).then(() => { /* no-op */ });
+            placeHolder: items.length > 1 ? "Badges this session (newest first)" : "No badges earned this session yet"
+        }).then(sel => {
+            if (sel === galleryItem) {
+                vscode.commands.executeCommand("coding-buddy-bot.showBadgeGallery");
+            } else if (sel?.badge && isBadgeClaimable(sel.badge)) {
+                this.claimBadge(sel.badge.id);
+            }
+        });
     }
 
     public showBadgeHistoryOutput(): void {
@@ -431,13 +686,21 @@ export class CodingBuddyBot {
         }
         this.badgeOutput.clear();
         this.badgeOutput.appendLine("🏅 Badges this session (newest first):\n");
-        if (this.badgesThisSession.length === 0) {
+        const badges = this.getBadgesThisSession();
+        if (badges.length === 0) {
             this.badgeOutput.appendLine("  (none yet)");
         } else {
-            for (const b of this.badgesThisSession) {
+            for (const b of badges) {
                 this.badgeOutput.appendLine(`• ${b.label} — ${new Date(b.at).toLocaleString()}`);
             }
         }
         this.badgeOutput.show(true);
     }
+
+    public dispose(): void {
+        this.subscriptions.forEach(d => d.dispose());
+        this.subscriptions = [];
+        this.badgeOutput?.dispose();
+        this.emotionDetector.cleanup();
+    }
 }
@@ -0,0 +1,105 @@
+import * as vscode from 'vscode';
+import { RoboflowEmotionDetector } from './roboflowEmotionDetector';
+import { FaceApiEmotionBackend } from './faceApiEmotionBackend';
+
+export interface EmotionBackendResult {
+    emotion: string;
+    confidence: number;
+    rawClass?: string; // the model's own label before it was mapped to a buddy emotion
+    /** The face in frame pixels: top-left corner and size. */
+    boundingBox?: {
+        x: number;
+        y: number;
+        width: number;
+        height: number;
+    };
+}
+
+/**
+ * Anything that can turn a captured JPEG frame into a buddy emotion: a hosted model,
+ * an on-device one, a self-hosted server or a test fake.
+ */
+export interface EmotionBackend extends vscode.Disposable {
+    readonly id: string;
+    readonly displayName: string;
+    /** True when frames are analyzed on this machine and never uploaded. */
+    readonly onDevice: boolean;
+
+    /** Resolves false when the backend cannot run (missing key, model files, ...). */
+    initialize(): Promise<boolean>;
+
+    /** Returns null when no face/emotion was found in the frame. */
+    detectFromBuffer(imageBuffer: Buffer): Promise<EmotionBackendResult | null>;
+
+    supportedEmotions(): string[];
+
+    /** False while a remote backend's service is paused by its circuit breaker; frames are not captured. */
+    isAvailable?(): boolean;
+}
+
+export type EmotionBackendFactory = () => EmotionBackend;
+
+interface RegisteredBackend {
+    id: string;
+    displayName: string;
+    factory: EmotionBackendFactory;
+}
+
+export const DEFAULT_EMOTION_BACKEND = 'roboflow';
+
+/**
+ * Named backends the capture loop can pick from via `codingBuddy.emotion.backend`.
+ * Built-ins register themselves here; anything else can be added with `register`.
+ */
+export class EmotionBackendRegistry {
+    private static instance: EmotionBackendRegistry;
+    private backends: Map<string, RegisteredBackend> = new Map();
+
+    private constructor() {
+        this.register('roboflow', 'Roboflow (cloud)', () => new RoboflowEmotionDetector());
+        this.register('faceapi', 'face-api (on-device)', () => new FaceApiEmotionBackend());
+    }
+
+    public static getInstance(): EmotionBackendRegistry {
+        if (!EmotionBackendRegistry.instance) {
+            EmotionBackendRegistry.instance = new EmotionBackendRegistry();
+        }
+        return EmotionBackendRegistry.instance;
+    }
+
+    /** Later registrations with the same id replace earlier ones until disposed. */
+    public register(id: string, displayName: string, factory: EmotionBackendFactory): vscode.Disposable {
+        const previous = this.backends.get(id);
+        const entry = { id, displayName, factory };
+        this.backends.set(id, entry);
+        return new vscode.Disposable(() => {
+            if (this.backends.get(id) !== entry) return;
+            if (previous) {
+                this.backends.set(id, previous);
+            } else {
+                this.backends.delete(id);
+            }
+        });
+    }
+
+    public list(): { id: string; displayName: string }[] {
+        return [...this.backends.values()].map(({ id, displayName }) => ({ id, displayName }));
+    }
+
+    public has(id: string): boolean {
+        return this.backends.has(id);
+    }
+
+    public create(id: string): EmotionBackend | undefined {
+        const entry = this.backends.get(id);
+        return entry ? entry.factory() : undefined;
+    }
+
+    /** The backend id chosen in settings, or the default when it names nothing registered. */
+    public getConfiguredId(): string {
+        const id = vscode.workspace.getConfiguration('codingBuddy').get<string>('emotion.backend', DEFAULT_EMOTION_BACKEND);
+        if (this.has(id)) return id;
+        console.warn(`⚠️ Unknown emotion backend "${id}", using ${DEFAULT_EMOTION_BACKEND}`);
+        return DEFAULT_EMOTION_BACKEND;
+    }
+}
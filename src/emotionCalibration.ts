@@ -0,0 +1,236 @@
+import * as vscode from 'vscode';
+import { EmotionBackendResult } from './emotionBackend';
+import { EmotionDetector } from './emotionDetector';
+import { getLabelMap, normalizeLabel } from './emotionTaxonomy';
+
+export type CalibrationPose = 'neutral' | 'smiling' | 'thinking';
+
+export interface CalibrationSample {
+    rawClass: string; // the model's own label
+    emotion: string; // what the uncalibrated mapping made of it
+    confidence: number;
+}
+
+/** How one raw class maps for this user: below `threshold` it reads as `below`, otherwise `above`. */
+export interface CalibrationRule {
+    threshold: number;
+    below: string;
+    above?: string; // unset keeps the backend's own mapping
+}
+
+export interface EmotionBaseline {
+    sourceId: string; // backend id, or MULTI_MODEL_SOURCE for the ensemble
+    createdAt: number;
+    samples: Record<CalibrationPose, CalibrationSample[]>;
+    rules: { [rawClass: string]: CalibrationRule };
+}
+
+export const MULTI_MODEL_SOURCE = 'multiModel';
+
+const POSES: { pose: CalibrationPose; prompt: string }[] = [
+    { pose: 'neutral', prompt: 'Relax and look at the screen with your normal, neutral face.' },
+    { pose: 'smiling', prompt: 'Give the camera a natural smile.' },
+    { pose: 'thinking', prompt: 'Look like you are working through a tricky bug: read some code and concentrate.' }
+];
+
+// Labels for a resting face, raw or (from the ensemble) already mapped; those read as focused anyway
+const RESTING_CLASSES = ['neutral', 'focused'];
+const MARGIN = 0.1; // headroom above the strongest reading of a resting face
+const MIN_THRESHOLD = 0.3;
+const MAX_THRESHOLD = 0.95;
+const CAPTURE_SPACING_MS = 800;
+
+function clampThreshold(value: number): number {
+    return Math.min(MAX_THRESHOLD, Math.max(MIN_THRESHOLD, value));
+}
+
+/**
+ * Derives per-class rules from the calibration poses. Classes the model reports while the
+ * user is resting or thinking read as focused up to a little above the strongest such
+ * reading; a smile the model files under another class is mapped to happy. Rules are keyed
+ * by the normalized label, so "Sad" and "sad" share one.
+ */
+export function buildBaseline(sourceId: string, samples: Record<CalibrationPose, CalibrationSample[]>, now: number = Date.now()): EmotionBaseline {
+    const rules: { [rawClass: string]: CalibrationRule } = {};
+    const normalize = (list: CalibrationSample[]) => list.map(s => ({ ...s, rawClass: normalizeLabel(s.rawClass) }));
+    const resting = normalize([...samples.neutral, ...samples.thinking]);
+    const smiles = normalize(samples.smiling);
+
+    const restingMax = new Map<string, number>();
+    for (const s of resting) {
+        if (RESTING_CLASSES.includes(s.rawClass)) continue;
+        restingMax.set(s.rawClass, Math.max(restingMax.get(s.rawClass) || 0, s.confidence));
+    }
+
+    for (const [rawClass, max] of restingMax) {
+        const smiling = smiles.filter(s => s.rawClass === rawClass);
+        const smileMean = smiling.length ? smiling.reduce((sum, s) => sum + s.confidence, 0) / smiling.length : 0;
+        // A class that also shows up when smiling splits halfway between the two poses
+        const threshold = smileMean > max ? (max + smileMean) / 2 : max + MARGIN;
+        rules[rawClass] = { threshold: clampThreshold(threshold), below: 'focused' };
+    }
+
+    // Labels the shared table splits by confidence (e.g. "sad") keep its reading above the user's cutoff
+    const labelMap = getLabelMap();
+    for (const [rawClass, rule] of Object.entries(rules)) {
+        const mapping = labelMap[rawClass];
+        if (mapping && typeof mapping === 'object') rule.above = mapping.above;
+    }
+
+    const smileClass = mostCommonClass(smiles);
+    if (smileClass && !restingMax.has(smileClass) && !RESTING_CLASSES.includes(smileClass)) {
+        const mapped = smiles.find(s => s.rawClass === smileClass)!.emotion;
+        if (mapped !== 'happy') {
+            rules[smileClass] = { threshold: 0, below: 'focused', above: 'happy' };
+        }
+    }
+
+    return { sourceId, createdAt: now, samples, rules };
+}
+
+function mostCommonClass(samples: CalibrationSample[]): string | undefined {
+    const counts = new Map<string, number>();
+    samples.forEach(s => counts.set(s.rawClass, (counts.get(s.rawClass) || 0) + 1));
+    let best: string | undefined;
+    for (const [rawClass, count] of counts) {
+        if (best === undefined || count > counts.get(best)!) best = rawClass;
+    }
+    return best;
+}
+
+// Baselines saved before rules were normalized may still have keys in the model's own case
+function findRule(baseline: EmotionBaseline | undefined, rawClass: string): CalibrationRule | undefined {
+    if (!baseline) return undefined;
+    const key = normalizeLabel(rawClass);
+    if (baseline.rules[key]) return baseline.rules[key];
+    const legacy = Object.keys(baseline.rules).find(k => normalizeLabel(k) === key);
+    return legacy === undefined ? undefined : baseline.rules[legacy];
+}
+
+/** One line per rule, for the wizard summary. */
+export function describeBaseline(baseline: EmotionBaseline): string[] {
+    return Object.entries(baseline.rules).map(([rawClass, rule]) => rule.threshold > 0
+        ? `"${rawClass}" below ${Math.round(rule.threshold * 100)}% → ${rule.below}${rule.above ? `, above → ${rule.above}` : ''}`
+        : `"${rawClass}" → ${rule.above}`);
+}
+
+/**
+ * Per-user emotion baselines captured by the calibration wizard, kept in global state with
+ * one baseline per emotion source since every model labels faces differently.
+ */
+export class EmotionCalibration {
+    private static readonly STORAGE_KEY = 'codingBuddy.calibration';
+
+    constructor(private readonly state: vscode.Memento) {}
+
+    public getBaseline(sourceId: string): EmotionBaseline | undefined {
+        return this.readAll()[sourceId];
+    }
+
+    public async saveBaseline(baseline: EmotionBaseline): Promise<void> {
+        await this.state.update(EmotionCalibration.STORAGE_KEY, { ...this.readAll(), [baseline.sourceId]: baseline });
+    }
+
+    public async clear(): Promise<void> {
+        await this.state.update(EmotionCalibration.STORAGE_KEY, undefined);
+    }
+
+    private readAll(): { [sourceId: string]: EmotionBaseline } {
+        return this.state.get<{ [sourceId: string]: EmotionBaseline }>(EmotionCalibration.STORAGE_KEY, {});
+    }
+
+    /** Remaps a raw detection with the user's rules for `sourceId`; unchanged when uncalibrated. */
+    public apply<T extends EmotionBackendResult>(sourceId: string, result: T): T {
+        const rule = result.rawClass ? findRule(this.getBaseline(sourceId), result.rawClass) : undefined;
+        if (!rule) return result;
+        const emotion = result.confidence < rule.threshold ? rule.below : (rule.above ?? result.emotion);
+        return { ...result, emotion };
+    }
+
+    /**
+     * Walks the user through the neutral, smiling and thinking poses, capturing
+     * `codingBuddy.emotion.calibration.framesPerPose` frames each through the same
+     * backend (or ensemble) that analyzes live frames. Captured frames are never saved.
+     */
+    public async runWizard(detector: EmotionDetector): Promise<void> {
+        const framesPerPose = Math.max(2, Math.floor(vscode.workspace.getConfiguration('codingBuddy')
+            .get<number>('emotion.calibration.framesPerPose', 5)));
+
+        const start = await vscode.window.showInformationMessage(
+            '🎯 Emotion calibration',
+            { modal: true, detail: `You will hold three expressions for a few seconds each while ${framesPerPose} frames are captured. Frames are analyzed and then discarded.` },
+            'Start'
+        );
+        if (start !== 'Start') return;
+
+        // Live detection would compete for the camera
+        const pausedHere = detector.getDetectionStatus() && !detector.isDetectionPaused();
+        if (pausedHere) detector.pauseDetection();
+
+        try {
+            const samples: Record<CalibrationPose, CalibrationSample[]> = { neutral: [], smiling: [], thinking: [] };
+            let sourceId: string | undefined;
+
+            for (let i = 0; i < POSES.length; i++) {
+                const { pose, prompt } = POSES[i];
+                for (;;) {
+                    const ready = await vscode.window.showInformationMessage(
+                        `Step ${i + 1}/${POSES.length}: ${pose}`,
+                        { modal: true, detail: `${prompt}\nClick Capture and hold it until the progress finishes.` },
+                        'Capture'
+                    );
+                    if (ready !== 'Capture') return;
+
+                    const captured = await this.capturePose(detector, pose, framesPerPose);
+                    if (captured.sourceId) sourceId = captured.sourceId;
+                    if (captured.samples.length >= 2) {
+                        samples[pose] = captured.samples;
+                        break;
+                    }
+
+                    const retry = await vscode.window.showWarningMessage(
+                        `⚠️ Only ${captured.samples.length} of ${framesPerPose} frames showed a face. Check the camera and lighting.`,
+                        { modal: true },
+                        'Try Again'
+                    );
+                    if (retry !== 'Try Again') return;
+                }
+            }
+
+            if (!sourceId) return;
+            const baseline = buildBaseline(sourceId, samples);
+            await this.saveBaseline(baseline);
+
+            const lines = describeBaseline(baseline);
+            vscode.window.showInformationMessage(lines.length
+                ? `✅ Calibration saved: ${lines.join('; ')}`
+                : '✅ Calibration saved. Your expressions already read as expected, so no adjustments were needed.');
+        } catch (error) {
+            console.error('❌ Emotion calibration failed:', error);
+            vscode.window.showErrorMessage(`❌ Emotion calibration failed: ${error instanceof Error ? error.message : error}`);
+        } finally {
+            if (pausedHere) detector.resumeDetection();
+        }
+    }
+
+    private capturePose(detector: EmotionDetector, pose: CalibrationPose, frames: number): Thenable<{ sourceId?: string; samples: CalibrationSample[] }> {
+        return vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Capturing "${pose}"`, cancellable: false },
+            async progress => {
+                const samples: CalibrationSample[] = [];
+                let sourceId: string | undefined;
+                for (let n = 0; n < frames; n++) {
+                    progress.report({ message: `frame ${n + 1}/${frames}`, increment: 100 / frames });
+                    const frame = await detector.captureCalibrationFrame();
+                    if (frame && frame.rawClass) {
+                        sourceId = frame.sourceId;
+                        samples.push({ rawClass: frame.rawClass, emotion: frame.emotion, confidence: frame.confidence });
+                    }
+                    await new Promise(resolve => setTimeout(resolve, CAPTURE_SPACING_MS));
+                }
+                console.log(`🎯 Calibration "${pose}":`, samples);
+                return { sourceId, samples };
+            }
+        );
+    }
+}
@@ -4,46 +4,88 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { WebcamManager } from './webcamManager';
-import { RoboflowEmotionDetector } from './roboflowEmotionDetector';
 import { MultiModelEmotionDetector } from './multiModelEmotionDetector';
-
-// Note: We'll use a simplified approach with face-api for emotion detection
-// In a production environment, you might want to use more sophisticated models
+import { BuddyEventBus, EnsembleVote } from './buddyEventBus';
+import { EmotionBackend, EmotionBackendRegistry, EmotionBackendResult } from './emotionBackend';
+import { EmotionCalibration, MULTI_MODEL_SOURCE } from './emotionCalibration';
+import { ApiKeyStore } from './apiKeyStore';
+import { CaptureCadence } from './captureCadence';
+import { FrameRetention, getRetentionPolicy } from './frameRetention';
 
 export interface EmotionResult {
     emotion: string;
     confidence: number;
     timestamp: number;
+    ensemble?: EnsembleVote; // set when the multi-model ensemble produced the result
+    sampleMs?: number; // time since the previous frame, i.e. how long this result stands for
+    boundingBox?: EmotionBackendResult['boundingBox']; // where the face was, when the backend says
+}
+
+/** An uncalibrated detection and where it came from (backend id or the ensemble). */
+export interface FrameDetection extends EmotionBackendResult {
+    sourceId: string;
+    ensemble?: EnsembleVote;
 }
 
 export class EmotionDetector {
     private isDetecting: boolean = false;
-    private detectionInterval: NodeJS.Timeout | null = null;
-    private callback: ((emotion: string, confidence: number) => void) | null = null;
+    private isPaused: boolean = false;
+    private captureTimer: NodeJS.Timeout | null = null;
+    private captureInFlight: boolean = false;
+    private cadence: CaptureCadence = new CaptureCadence();
+    private lastCaptureAt: number = 0;
+    private lastSampleAt: number = 0;
+    private scheduledDelayMs: number = 0; // what the cadence (and frame budget) last asked to wait
+    private lastCaptureMs: number = 0; // how long the previous capture and analysis took
+    private subscriptions: vscode.Disposable[] = [];
     private webcam: any = null;
     private frameCount: number = 0;
     private lastEmotion: string = 'focused';
     private emotionHistory: string[] = [];
     private webcamManager: WebcamManager;
-    private saveFrames: boolean = true; // Always save frames when webcam is active
-    private roboflowDetector: RoboflowEmotionDetector;
+    private saveFrames: boolean = getRetentionPolicy().save; // codingBuddy.frames.save, or setSaveFrames()
+    private backend: EmotionBackend | undefined;
+    private backendReady: boolean = false;
     private multiModelDetector: MultiModelEmotionDetector;
-    private useRoboflow: boolean = true;
-    private useMultiModel: boolean = true; // Enable multi-model detection
+    private calibration: EmotionCalibration | undefined;
 
     constructor() {
         this.webcamManager = WebcamManager.getInstance();
-        this.roboflowDetector = new RoboflowEmotionDetector();
         this.multiModelDetector = new MultiModelEmotionDetector();
-        console.log('EmotionDetector initialized with Roboflow and Multi-Model emotion detection');
+        this.subscriptions.push(this.multiModelDetector);
+
+        // A backend that failed for want of a key is retried on the next frame once one is set
+        this.subscriptions.push(ApiKeyStore.getInstance().onDidChangeKey(() => {
+            if (!this.backendReady) this.disposeBackend();
+        }));
+
+        // Focus changes and new compile errors re-time the pending capture
+        this.cadence.setWindowFocused(vscode.window.state.focused);
+        this.subscriptions.push(
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('codingBuddy.frames.save')) {
+                    this.saveFrames = getRetentionPolicy().save;
+                }
+            }),
+            vscode.window.onDidChangeWindowState(state => {
+                this.cadence.setWindowFocused(state.focused);
+                this.rescheduleCapture();
+            }),
+            BuddyEventBus.getInstance().on('codeErrorsChanged', ({ errorCount, previousErrorCount }) => {
+                if (errorCount <= previousErrorCount) return;
+                this.cadence.noteErrorSpike();
+                this.rescheduleCapture();
+            })
+        );
+        console.log('EmotionDetector initialized');
     }
 
-    public async startDetection(callback: (emotion: string, confidence: number) => void): Promise<void> {
+    /** Starts camera polling; detections are published as `emotionDetected` events. */
+    public async startDetection(): Promise<void> {
         if (this.isDetecting) {
             return;
         }
 
-        this.callback = callback;
         this.isDetecting = true;
 
         try {
@@ -59,20 +101,9 @@ export class EmotionDetector {
                 throw new Error('Webcam not accessible');
             }
 
-            // Initialize Roboflow emotion detection
-            if (this.useRoboflow) {
-                console.log('🔧 Initializing Roboflow emotion detection...');
-                console.log('🔍 Debug: Roboflow detector ready state:', this.roboflowDetector.isReady());
-                const roboflowReady = await this.roboflowDetector.initialize();
-                console.log('🔍 Debug: Roboflow initialization result:', roboflowReady);
-                if (roboflowReady) {
-                    console.log('✅ Roboflow emotion detection initialized!');
-                    console.log('🔍 Debug: Final ready state:', this.roboflowDetector.isReady());
-                } else {
-                    console.log('⚠️ Roboflow initialization failed, will use fallback');
-                    this.useRoboflow = false;
-                }
-            }
+            // Initialize the emotion backend chosen in settings; retry one that failed last time
+            if (!this.backendReady) this.disposeBackend();
+            const backend = await this.ensureBackend();
 
             // Initialize webcam
             await this.initializeWebcam();
@@ -80,7 +111,11 @@ export class EmotionDetector {
             // Start emotion detection
             this.startRealDetection();
             
-            vscode.window.showInformationMessage('📹 Camera activated! I\'m watching for your coding expressions every 5 seconds... Frames will be saved automatically.');
+            if (backend) {
+                vscode.window.showInformationMessage('📹 Camera activated! I\'m watching for your coding expressions... Frames will be saved automatically.');
+            } else {
+                vscode.window.showWarningMessage(`📹 Camera activated, but ${this.backend?.displayName ?? 'the emotion backend'} is not available, so your expressions are not analyzed. Check "Coding Buddy: Set API Key" or the codingBuddy.emotion.backend setting.`);
+            }
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to start camera: ${error}`);
             this.isDetecting = false;
@@ -94,23 +129,41 @@ export class EmotionDetector {
         }
 
         this.isDetecting = false;
-        
-        if (this.detectionInterval) {
-            clearInterval(this.detectionInterval);
-            this.detectionInterval = null;
-        }
+        this.isPaused = false;
+        this.cancelCapture();
 
         // Clean up webcam
         if (this.webcam) {
             this.webcam = null;
         }
 
-        this.callback = null;
         vscode.window.showInformationMessage('📹 Camera deactivated');
     }
 
+    // Stops polling the camera without tearing down the webcam
+    public pauseDetection(): void {
+        if (!this.isDetecting || this.isPaused) {
+            return;
+        }
+
+        this.isPaused = true;
+        this.cancelCapture();
+        this.lastSampleAt = 0; // resuming starts a new interval; paused time is never a sample
+        console.log('⏸️ Emotion detection paused');
+    }
+
+    public resumeDetection(): void {
+        if (!this.isDetecting || !this.isPaused) {
+            return;
+        }
+
+        this.isPaused = false;
+        this.startRealDetection();
+        console.log('▶️ Emotion detection resumed');
+    }
+
     public async triggerEmotionDetection(): Promise<void> {
-        if (!this.isDetecting || !this.callback) {
+        if (!this.isDetecting) {
             console.log('⚠️ Emotion detection not active');
             return;
         }
@@ -119,7 +172,7 @@ export class EmotionDetector {
             console.log('📸 Triggering emotion detection...');
             const emotion = await this.captureAndAnalyzeEmotion();
             if (emotion) {
-                this.callback(emotion.emotion, emotion.confidence);
+                this.publishEmotion(emotion);
             }
         } catch (error) {
             console.error('Error in emotion detection:', error);
@@ -154,28 +207,135 @@ export class EmotionDetector {
     }
 
     private startRealDetection(): void {
-        // Start automatic emotion detection every 5 seconds
-        console.log('🎯 Starting automatic emotion detection every 5 seconds...');
-        
-        this.detectionInterval = setInterval(async () => {
-            if (this.isDetecting && this.callback) {
-                try {
-                    console.log('📸 Auto-capturing frame for emotion detection...');
-                    const emotion = await this.captureAndAnalyzeEmotion();
-                    if (emotion) {
-                        this.callback(emotion.emotion, emotion.confidence);
-                    }
-                } catch (error) {
-                    console.error('Error in automatic emotion detection:', error);
-                    // Don't show error message to user for automatic captures to avoid spam
-                }
+        // Time spent stopped or paused is not attributed to the first frame afterwards
+        this.cadence.reset();
+        this.lastCaptureAt = Date.now();
+        this.lastSampleAt = this.lastCaptureAt;
+        const delay = this.scheduleNextCapture();
+
+        console.log(`✅ Automatic emotion detection started! First capture in ${Math.round(delay / 1000)}s, then adapting to what is happening.`);
+    }
+
+    /** Arms the capture timer for the cadence's next delay, counted from the previous capture. */
+    private scheduleNextCapture(): number {
+        this.cancelCapture();
+        this.scheduledDelayMs = this.cadence.nextDelayMs();
+        const delay = Math.max(0, this.lastCaptureAt + this.scheduledDelayMs - Date.now());
+        this.captureTimer = setTimeout(() => this.runScheduledCapture(), delay);
+        return delay;
+    }
+
+    /** Re-times a pending capture; one in flight schedules the next when it finishes. */
+    private rescheduleCapture(): void {
+        if (this.captureTimer && !this.captureInFlight) {
+            this.scheduleNextCapture();
+        }
+    }
+
+    private cancelCapture(): void {
+        if (this.captureTimer) {
+            clearTimeout(this.captureTimer);
+            this.captureTimer = null;
+        }
+    }
+
+    private async runScheduledCapture(): Promise<void> {
+        this.captureTimer = null;
+        if (!this.isDetecting || this.isPaused) return;
+
+        this.captureInFlight = true;
+        try {
+            // The backend's service is paused by its circuit breaker; the status bar already says so
+            if (this.backend?.isAvailable && !this.backend.isAvailable()) {
+                console.log(`⏸️ ${this.backend.displayName} is paused after repeated failures; skipping this frame`);
+                this.lastCaptureAt = Date.now();
+                return;
             }
-        }, 5000); // 5 seconds = 5000 milliseconds
-        
-        console.log('✅ Automatic emotion detection started! Capturing every 5 seconds.');
+
+            console.log('📸 Auto-capturing frame for emotion detection...');
+            const emotion = await this.captureAndAnalyzeEmotion();
+            if (emotion) {
+                this.publishEmotion(emotion);
+            }
+        } catch (error) {
+            console.error('Error in automatic emotion detection:', error);
+            // Don't show error message to user for automatic captures to avoid spam
+        } finally {
+            this.captureInFlight = false;
+            if (this.isDetecting && !this.isPaused) {
+                const delay = this.scheduleNextCapture();
+                console.log(`⏱️ Next capture in ${Math.round(delay / 100) / 10}s`);
+            }
+        }
+    }
+
+    private publishEmotion(result: EmotionResult): void {
+        // a capture that was in flight when the session paused or stopped is dropped
+        if (!this.isDetecting || this.isPaused) return;
+
+        const agreement = result.ensemble
+            ? `, ${Math.round(result.ensemble.modelAgreement)}% of ${result.ensemble.modelsResponded} models agree`
+            : '';
+        BuddyEventBus.getInstance().emit('emotionDetected', {
+            emotion: result.emotion,
+            confidence: result.confidence,
+            source: 'camera',
+            reason: `Detected via camera (${Math.round(result.confidence * 100)}% confidence${agreement})`,
+            ensemble: result.ensemble,
+            sampleMs: result.sampleMs
+        });
     }
 
     private async captureAndAnalyzeEmotion(): Promise<EmotionResult | null> {
+        // Measure the real gap between frames; it varies with the cadence, the frame budget and slow
+        // requests. Anything beyond the scheduled wait (or the previous capture, if that ran longer)
+        // is a stall such as the machine sleeping, not time spent in this emotion.
+        const startedAt = Date.now();
+        const maxSampleMs = Math.max(this.scheduledDelayMs, this.lastCaptureMs);
+        const sampleMs = this.lastSampleAt ? Math.min(startedAt - this.lastSampleAt, maxSampleMs) : 0;
+        this.lastCaptureAt = startedAt;
+        this.lastSampleAt = startedAt;
+
+        let emotion: EmotionResult | null = null;
+        try {
+            const imageBuffer = await this.captureFrameBuffer('temp_frame.jpg');
+
+            // Analyze the captured image buffer for emotions using buffer method (more reliable)
+            emotion = await this.analyzeImageBufferForEmotion(imageBuffer);
+
+            if (this.saveFrames) {
+                await this.saveFrame(imageBuffer, emotion?.boundingBox);
+            }
+        } finally {
+            // Every attempt counts against the frame budget, found face or not
+            this.cadence.recordFrame(emotion?.emotion, startedAt);
+            this.lastCaptureMs = Date.now() - startedAt;
+        }
+
+        if (!emotion) {
+            throw new Error('Emotion detection failed - no emotion detected');
+        }
+        return { ...emotion, sampleMs };
+    }
+
+    /** Keeps the frame under the retention policy; a failed save never costs the detection. */
+    private async saveFrame(imageBuffer: Buffer, box?: EmotionBackendResult['boundingBox']): Promise<void> {
+        try {
+            const filepath = await FrameRetention.getInstance().saveFrame(imageBuffer, box);
+            if (!filepath) return;
+            console.log(`📸 Frame saved: ${filepath}`);
+
+            // Show notification for the first frame
+            if (++this.frameCount === 1) {
+                vscode.window.showInformationMessage(`📸 First frame captured! Use "Coding Buddy: Open Frame Directory" to view frames.`);
+            }
+        } catch (error) {
+            console.error('❌ Could not save frame:', error);
+        }
+    }
+
+    /** Captures one JPEG through the webcam into `fileName` in the temp directory and reads it back. */
+    private captureFrameBuffer(fileName: string): Promise<Buffer> {
         return new Promise((resolve, reject) => {
             if (!this.webcam) {
                 reject(new Error('Webcam not initialized'));
@@ -193,10 +353,10 @@ export class EmotionDetector {
             }
             
             // Capture frame as buffer using the correct method with full path
-            const tempFilePath = path.join(tempDir, 'temp_frame.jpg');
+            const tempFilePath = path.join(tempDir, fileName);
             console.log('🔍 Debug: Capturing to:', tempFilePath);
             
-            this.webcam.capture(tempFilePath, async (err: any, data: any) => {
+            this.webcam.capture(tempFilePath, (err: any, data: any) => {
                 if (err) {
                     console.error('🔍 Debug: Webcam capture error:', err);
                     reject(err);
@@ -218,7 +378,6 @@ export class EmotionDetector {
                     const fileStats = fs.statSync(tempFilePath);
                     console.log(`🔍 Debug: Captured file size: ${fileStats.size} bytes`);
                     
-                    // Read the captured file as buffer (tempFilePath is already defined above)
                     const imageBuffer = fs.readFileSync(tempFilePath);
                     
                     // Clean up the temporary capture file
@@ -238,171 +397,167 @@ export class EmotionDetector {
                     }
                     
                     console.log('✅ Image appears valid, proceeding to analysis...');
-                    
-                    // Analyze the captured image buffer for emotions using buffer method (more reliable)
-                    const emotion = await this.analyzeImageBufferForEmotion(imageBuffer);
-                    
-                    // Always save the frame when webcam is active (as per user preference)
-                    const filename = `frame_${this.frameCount++}_${Date.now()}.jpg`;
-                    const filepath = path.join(this.webcamManager.getTempDir(), filename);
-                    fs.writeFileSync(filepath, imageBuffer);
-                    console.log(`📸 Frame saved: ${filepath}`);
-                    
-                    // Show notification for the first frame
-                    if (this.frameCount === 1) {
-                        vscode.window.showInformationMessage(`📸 First frame captured! Use "Coding Buddy: Open Frame Directory" to view frames.`);
-                    }
-                    
-                    if (emotion) {
-                        resolve(emotion);
-                    } else {
-                        reject(new Error('Emotion detection failed - no emotion detected'));
-                    }
-                } catch (analysisError) {
-                    console.error('🔍 Debug: Analysis error:', analysisError);
-                    reject(analysisError);
+                    resolve(imageBuffer);
+                } catch (captureError) {
+                    console.error('🔍 Debug: Capture error:', captureError);
+                    reject(captureError);
                 }
             });
         });
     }
 
-    private async analyzeImageForEmotion(imagePath: string): Promise<EmotionResult> {
-        console.log('🔍 Starting emotion analysis with Roboflow...');
-        
-        if (this.useRoboflow && this.roboflowDetector.isReady()) {
-            console.log('🤖 Using Roboflow for emotion detection...');
-            try {
-                const roboflowResult = await this.roboflowDetector.detectEmotion(imagePath);
-                if (roboflowResult && roboflowResult.confidence > 0.1) { // Lower confidence threshold to 10%
-                    console.log(`✅ Roboflow detected: ${roboflowResult.emotion} (${Math.round(roboflowResult.confidence * 100)}%)`);
-                    
-                    // Update emotion history
-                    this.emotionHistory.push(roboflowResult.emotion);
-                    if (this.emotionHistory.length > 10) {
-                        this.emotionHistory.shift();
-                    }
-                    
-                    this.lastEmotion = roboflowResult.emotion;
-                    
-                    return {
-                        emotion: roboflowResult.emotion,
-                        confidence: roboflowResult.confidence,
-                        timestamp: Date.now()
-                    };
-                } else if (roboflowResult) {
-                    console.log(`⚠️ Roboflow detected: ${roboflowResult.emotion} but confidence too low (${Math.round(roboflowResult.confidence * 100)}%)`);
-                } else {
-                    console.log('❌ Roboflow returned null result');
-                }
-            } catch (error) {
-                console.error('❌ Roboflow detection failed:', error);
-            }
+    /**
+     * Returns the backend named in `codingBuddy.emotion.backend`, initializing it on first use
+     * and swapping it out when the setting changes.
+     */
+    private async ensureBackend(): Promise<EmotionBackend | undefined> {
+        const id = EmotionBackendRegistry.getInstance().getConfiguredId();
+        if (this.backend && this.backend.id === id) {
+            return this.backendReady ? this.backend : undefined;
         }
-        
-        // No fallback - only use Roboflow for real emotion detection
-        console.log('❌ Roboflow detection failed - no fallback emotions will be generated');
-        throw new Error('Roboflow emotion detection failed - no mock emotions will be generated');
+
+        this.disposeBackend();
+        this.backend = EmotionBackendRegistry.getInstance().create(id);
+        if (!this.backend) return undefined;
+
+        console.log(`🔧 Initializing emotion backend: ${this.backend.displayName}`);
+        try {
+            this.backendReady = await this.backend.initialize();
+        } catch (error) {
+            console.error(`❌ Emotion backend ${id} failed to initialize:`, error);
+            this.backendReady = false;
+        }
+        if (!this.backendReady) {
+            console.log(`⚠️ Emotion backend ${id} is not available; frames will not be analyzed`);
+            return undefined;
+        }
+        return this.backend;
+    }
+
+    private disposeBackend(): void {
+        if (this.backend) {
+            this.backend.dispose();
+            this.backend = undefined;
+        }
+        this.backendReady = false;
     }
 
     private async analyzeImageBufferForEmotion(imageBuffer: Buffer): Promise<EmotionResult | null> {
-        console.log('🔍 Starting emotion analysis with Roboflow from buffer...');
-        
-        if (this.useRoboflow && this.roboflowDetector.isReady()) {
-            console.log('🤖 Using Roboflow for emotion detection from buffer...');
-            try {
-                const roboflowResult = await this.roboflowDetector.detectEmotionFromBuffer(imageBuffer);
-                if (roboflowResult && roboflowResult.confidence > 0.1) { // Lower confidence threshold to 10%
-                    console.log(`✅ Roboflow detected: ${roboflowResult.emotion} (${Math.round(roboflowResult.confidence * 100)}%)`);
-                    
-                    // Update emotion history
-                    this.emotionHistory.push(roboflowResult.emotion);
-                    if (this.emotionHistory.length > 10) {
-                        this.emotionHistory.shift();
-                    }
-                    
-                    this.lastEmotion = roboflowResult.emotion;
-                    
-                    return {
-                        emotion: roboflowResult.emotion,
-                        confidence: roboflowResult.confidence,
-                        timestamp: Date.now()
-                    };
-                } else if (roboflowResult) {
-                    console.log(`⚠️ Roboflow detected: ${roboflowResult.emotion} but confidence too low (${Math.round(roboflowResult.confidence * 100)}%)`);
-                    // Even with low confidence, return the result
-                    return {
-                        emotion: roboflowResult.emotion,
-                        confidence: roboflowResult.confidence,
-                        timestamp: Date.now()
-                    };
-                } else {
-                    console.log('❌ Roboflow returned null result');
-                }
-            } catch (error) {
-                console.error('❌ Roboflow detection failed:', error);
-            }
+        const detection = await this.detectFrame(imageBuffer);
+        if (!detection) return null;
+
+        const result = this.calibration ? this.calibration.apply(detection.sourceId, detection) : detection;
+        if (result.emotion !== detection.emotion) {
+            console.log(`🎯 Calibrated: ${detection.rawClass} (${Math.round(detection.confidence * 100)}%) → ${result.emotion} instead of ${detection.emotion}`);
+        }
+
+        if (result.ensemble || result.confidence > 0.1) {
+            this.recordEmotion(result.emotion);
         } else {
-            console.log('❌ Roboflow not ready or not enabled');
+            // Even with low confidence, return the result
+            console.log(`⚠️ ${result.sourceId} detected: ${result.emotion} but confidence too low (${Math.round(result.confidence * 100)}%)`);
         }
-        
-        // If we get here, Roboflow detection failed - return null to indicate failure
-        console.log('❌ Roboflow detection failed - returning null');
-        return null;
+
+        return {
+            emotion: result.emotion,
+            confidence: result.confidence,
+            timestamp: Date.now(),
+            ensemble: result.ensemble,
+            boundingBox: result.boundingBox
+        };
     }
 
-    private async analyzeImageBufferAsDataURL(imageBuffer: Buffer): Promise<EmotionResult> {
-        console.log('🔍 Starting emotion analysis with Roboflow from data URL...');
-        
-        if (this.useRoboflow && this.roboflowDetector.isReady()) {
-            console.log('🤖 Using Roboflow for emotion detection from data URL...');
-            try {
-                // Convert buffer to data URL
-                const dataURL = `data:image/jpeg;base64,${imageBuffer.toString('base64')}`;
-                console.log(`🔗 Converted buffer to data URL: ${dataURL.length} characters`);
-                console.log('🔗 Data URL preview:', dataURL.substring(0, 100) + '...');
-                console.log('🔗 Full Data URL:', dataURL);
-                
-                const roboflowResult = await this.roboflowDetector.detectEmotionFromDataURL(dataURL);
-                if (roboflowResult && roboflowResult.confidence > 0.1) { // Lower confidence threshold to 10%
-                    console.log(`✅ Roboflow detected: ${roboflowResult.emotion} (${Math.round(roboflowResult.confidence * 100)}%)`);
-                    
-                    // Update emotion history
-                    this.emotionHistory.push(roboflowResult.emotion);
-                    if (this.emotionHistory.length > 10) {
-                        this.emotionHistory.shift();
-                    }
-                    
-                    this.lastEmotion = roboflowResult.emotion;
-                    
-                    return {
-                        emotion: roboflowResult.emotion,
-                        confidence: roboflowResult.confidence,
-                        timestamp: Date.now()
-                    };
-                } else if (roboflowResult) {
-                    console.log(`⚠️ Roboflow detected: ${roboflowResult.emotion} but confidence too low (${Math.round(roboflowResult.confidence * 100)}%)`);
-                } else {
-                    console.log('❌ Roboflow returned null result');
-                }
-            } catch (error) {
-                console.error('❌ Roboflow detection failed:', error);
+    /** Runs the ensemble or the configured backend on a frame, without calibration. */
+    private async detectFrame(imageBuffer: Buffer): Promise<FrameDetection | null> {
+        const backend = await this.ensureBackend();
+
+        // Which of its models may see the frame is decided per model, by endpoint
+        if (this.isMultiModelEnabled()) {
+            const ensembleResult = await this.analyzeWithEnsemble(imageBuffer);
+            if (ensembleResult) {
+                return ensembleResult;
             }
-        } else {
-            console.log('❌ Roboflow not ready or not enabled');
         }
-        
-        // Return a neutral result instead of throwing error
-        console.log('🔄 Returning neutral emotion result');
+
+        if (!backend) {
+            console.log('❌ No emotion backend ready');
+            return null;
+        }
+
+        // Network failures are thrown rather than turned into "no face", so callers can tell them apart
+        console.log(`🔍 Starting emotion analysis with ${backend.displayName}...`);
+        const result = await backend.detectFromBuffer(imageBuffer);
+        if (!result) {
+            console.log(`❌ ${backend.displayName} found no face`);
+            return null;
+        }
+
+        console.log(`✅ ${backend.displayName} detected: ${result.emotion} (${Math.round(result.confidence * 100)}%)`);
+        return { ...result, sourceId: backend.id };
+    }
+
+    /**
+     * Runs the multi-model ensemble; returns null so the caller falls back to the single
+     * backend when fewer than `codingBuddy.emotion.multiModel.minModels` models responded.
+     */
+    private async analyzeWithEnsemble(imageBuffer: Buffer): Promise<FrameDetection | null> {
+        const cfg = vscode.workspace.getConfiguration('codingBuddy');
+        const minModels = Math.max(1, cfg.get<number>('emotion.multiModel.minModels', 2));
+
+        const result = await this.multiModelDetector.detectEmotion(imageBuffer);
+        const responded = result ? result.individualResults.length : 0;
+        if (!result || responded < minModels) {
+            console.log(`🎯 ${responded}/${this.multiModelDetector.getModelCount()} models responded (need ${minModels}), falling back to single model`);
+            return null;
+        }
+
         return {
-            emotion: 'neutral',
-            confidence: 0.5,
-            timestamp: Date.now()
+            sourceId: MULTI_MODEL_SOURCE,
+            // the ensemble votes on already-mapped emotions, so calibration works on the winner
+            emotion: result.emotion,
+            rawClass: result.emotion,
+            confidence: result.confidence,
+            ensemble: {
+                modelAgreement: result.modelAgreement,
+                modelVotes: result.modelVotes,
+                modelsResponded: responded
+            }
         };
     }
 
+    /**
+     * Captures and analyzes one frame for the calibration wizard, starting the webcam and
+     * backend if no session is running. The frame is not saved and no calibration is applied.
+     */
+    public async captureCalibrationFrame(): Promise<FrameDetection | null> {
+        if (!this.webcam) {
+            const hasPermission = await this.webcamManager.initialize();
+            if (!hasPermission) {
+                throw new Error('Webcam permission not granted');
+            }
+            await this.initializeWebcam();
+        }
 
+        try {
+            const imageBuffer = await this.captureFrameBuffer('calibration_frame.jpg');
+            return await this.detectFrame(imageBuffer);
+        } catch (error) {
+            console.error('❌ Calibration capture failed:', error);
+            return null;
+        }
+    }
 
+    public setCalibration(calibration: EmotionCalibration): void {
+        this.calibration = calibration;
+    }
 
+    private recordEmotion(emotion: string): void {
+        this.emotionHistory.push(emotion);
+        if (this.emotionHistory.length > 10) {
+            this.emotionHistory.shift();
+        }
+        this.lastEmotion = emotion;
+    }
 
     // Mock method to simulate camera access (for testing)
     public async checkCameraAccess(): Promise<boolean> {
@@ -419,6 +574,10 @@ export class EmotionDetector {
         return this.isDetecting;
     }
 
+    public isDetectionPaused(): boolean {
+        return this.isPaused;
+    }
+
     // Method to get emotion statistics
     public getEmotionStats(): { totalChanges: number; currentEmotion: string; emotionHistory: string[] } {
         return {
@@ -443,18 +602,23 @@ export class EmotionDetector {
         return this.webcamManager.getTempDir();
     }
 
-    // Method to toggle multi-model detection
-    public setMultiModelEnabled(enabled: boolean): void {
-        this.useMultiModel = enabled;
+    // Method to toggle multi-model detection; stored in `codingBuddy.emotion.multiModel.enabled`
+    public async setMultiModelEnabled(enabled: boolean): Promise<void> {
+        await vscode.workspace.getConfiguration('codingBuddy')
+            .update('emotion.multiModel.enabled', enabled, vscode.ConfigurationTarget.Global);
         if (enabled) {
-            vscode.window.showInformationMessage('🎯 Multi-model emotion detection enabled! Using 5 models for better accuracy.');
+            vscode.window.showInformationMessage(`🎯 Multi-model emotion detection enabled! Using ${this.multiModelDetector.getModelCount()} models for better accuracy. Each frame goes to every model, which costs one request per hosted Roboflow model.`);
         } else {
-            vscode.window.showInformationMessage('🎯 Single-model emotion detection enabled (Roboflow only).');
+            vscode.window.showInformationMessage('🎯 Single-model emotion detection enabled.');
         }
     }
 
     public isMultiModelEnabled(): boolean {
-        return this.useMultiModel;
+        return vscode.workspace.getConfiguration('codingBuddy').get<boolean>('emotion.multiModel.enabled', false);
+    }
+
+    public getMultiModelDetector(): MultiModelEmotionDetector {
+        return this.multiModelDetector;
     }
 
     // Method to open the temp directory in Finder
@@ -472,9 +636,13 @@ export class EmotionDetector {
     // Cleanup method
     public cleanup(): void {
         this.stopDetection();
+        this.disposeBackend();
+        this.subscriptions.forEach(d => d.dispose());
+        this.subscriptions = [];
         
-        // Clean up temp directory
+        // Drop leftover captures and frames past the retention caps; kept frames stay
         this.webcamManager.cleanup();
+        FrameRetention.getInstance().enforcePolicy();
     }
 
     // Method to test webcam functionality
@@ -0,0 +1,114 @@
+import * as vscode from 'vscode';
+
+/** Parts of the buddy that react to emotions, each smoothed with its own settings. */
+export type EmotionConsumer = 'theme' | 'notifications' | 'webview';
+
+export interface SmoothingOptions {
+    enabled: boolean;
+    windowSize: number; // most recent samples considered
+    halfLifeSeconds: number; // a sample's confidence halves every this many seconds
+    minShare: number; // 0-1 share of the decayed confidence the leader needs
+    minDwellSeconds: number; // how long a stable emotion holds before it may change
+}
+
+export interface StableEmotionChange {
+    emotion: string;
+    confidence: number; // mean confidence of the samples that voted for it
+    previous?: string;
+    at: number;
+}
+
+interface Sample {
+    emotion: string;
+    confidence: number;
+    at: number;
+}
+
+export const DEFAULT_SMOOTHING: Record<EmotionConsumer, SmoothingOptions> = {
+    // Theme swaps are the most disruptive, so they need the longest agreement
+    theme: { enabled: true, windowSize: 6, halfLifeSeconds: 20, minShare: 0.6, minDwellSeconds: 60 },
+    notifications: { enabled: true, windowSize: 5, halfLifeSeconds: 15, minShare: 0.5, minDwellSeconds: 30 },
+    webview: { enabled: true, windowSize: 3, halfLifeSeconds: 10, minShare: 0.5, minDwellSeconds: 5 }
+};
+
+/**
+ * Turns a stream of per-frame emotions into stable transitions: a sliding-window majority
+ * over exponentially decayed confidences, plus a minimum dwell time before the stable
+ * emotion may change again. Options come from `codingBuddy.emotion.smoothing.<consumer>`.
+ */
+export class EmotionSmoother {
+    private samples: Sample[] = [];
+    private stable: string | undefined;
+    private stableSince: number = 0;
+
+    constructor(private readonly consumer: EmotionConsumer) {}
+
+    public getOptions(): SmoothingOptions {
+        const configured = vscode.workspace.getConfiguration('codingBuddy')
+            .get<Partial<SmoothingOptions>>(`emotion.smoothing.${this.consumer}`, {});
+        const options = { ...DEFAULT_SMOOTHING[this.consumer], ...configured };
+        return {
+            ...options,
+            windowSize: Math.max(1, Math.floor(options.windowSize)),
+            minShare: Math.min(1, Math.max(0, options.minShare))
+        };
+    }
+
+    /** Adds one detection; returns the new stable emotion when it changes, otherwise undefined. */
+    public push(emotion: string, confidence: number, at: number = Date.now()): StableEmotionChange | undefined {
+        const options = this.getOptions();
+
+        if (!options.enabled) {
+            // Unsmoothed: every detection goes straight through
+            const previous = this.stable;
+            this.samples = [];
+            this.stable = emotion;
+            this.stableSince = at;
+            return { emotion, confidence, previous, at };
+        }
+
+        this.samples.push({ emotion, confidence, at });
+        if (this.samples.length > options.windowSize) {
+            this.samples.splice(0, this.samples.length - options.windowSize);
+        }
+
+        const scores = new Map<string, number>();
+        let total = 0;
+        for (const s of this.samples) {
+            const ageSeconds = Math.max(0, at - s.at) / 1000;
+            const weight = s.confidence * Math.pow(0.5, ageSeconds / options.halfLifeSeconds);
+            scores.set(s.emotion, (scores.get(s.emotion) || 0) + weight);
+            total += weight;
+        }
+        if (total <= 0) return undefined;
+
+        const [leader, score] = [...scores.entries()].reduce((best, current) => current[1] > best[1] ? current : best);
+        const votes = this.samples.filter(s => s.emotion === leader);
+
+        // Needs a majority of the window by count and enough of the decayed confidence
+        if (votes.length < Math.ceil(options.windowSize / 2)) return undefined;
+        if (score / total < options.minShare) return undefined;
+        if (leader === this.stable) return undefined;
+        if (this.stable !== undefined && at - this.stableSince < options.minDwellSeconds * 1000) return undefined;
+
+        const previous = this.stable;
+        this.stable = leader;
+        this.stableSince = at;
+        return {
+            emotion: leader,
+            confidence: votes.reduce((sum, s) => sum + s.confidence, 0) / votes.length,
+            previous,
+            at
+        };
+    }
+
+    public getStableEmotion(): string | undefined {
+        return this.stable;
+    }
+
+    public reset(): void {
+        this.samples = [];
+        this.stable = undefined;
+        this.stableSince = 0;
+    }
+}
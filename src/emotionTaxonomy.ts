@@ -0,0 +1,134 @@
+import * as vscode from 'vscode';
+
+/** The emotions every part of the buddy understands; models' own labels are mapped onto these. */
+export const BUDDY_EMOTION_IDS = ['happy', 'focused', 'frustrated', 'confused', 'surprised', 'sad', 'disgusted', 'content'] as const;
+
+export type BuddyEmotion = typeof BUDDY_EMOTION_IDS[number];
+
+export interface BuddyEmotionInfo {
+    id: BuddyEmotion;
+    label: string;
+    icon: string;
+    valence: 'positive' | 'neutral' | 'negative';
+}
+
+export const BUDDY_EMOTIONS: BuddyEmotionInfo[] = [
+    { id: 'happy', label: 'Happy', icon: '😊', valence: 'positive' },
+    { id: 'focused', label: 'Focused', icon: '🎯', valence: 'neutral' },
+    { id: 'frustrated', label: 'Frustrated', icon: '😤', valence: 'negative' },
+    { id: 'confused', label: 'Confused', icon: '🤔', valence: 'negative' },
+    { id: 'surprised', label: 'Surprised', icon: '😲', valence: 'positive' },
+    { id: 'sad', label: 'Sad', icon: '😢', valence: 'negative' },
+    { id: 'disgusted', label: 'Disgusted', icon: '🤢', valence: 'negative' },
+    { id: 'content', label: 'Content', icon: '😌', valence: 'positive' }
+];
+
+/** A raw label whose meaning depends on how sure the model is. */
+export interface LabelThresholdRule {
+    threshold: number;
+    below: BuddyEmotion;
+    above: BuddyEmotion;
+}
+
+export type LabelMapping = BuddyEmotion | LabelThresholdRule;
+
+/** What the detector reports when a model's label is not in the table. */
+export const FALLBACK_EMOTION: BuddyEmotion = 'focused';
+
+// Keys are lower-case model labels; canonical ids map to themselves so pre-mapped labels pass through
+export const DEFAULT_LABEL_MAP: { [rawLabel: string]: LabelMapping } = {
+    happy: 'happy',
+    happiness: 'happy',
+    neutral: 'focused',
+    focused: 'focused',
+    angry: 'frustrated',
+    anger: 'frustrated',
+    frustrated: 'frustrated',
+    // A faint "sad" is usually just concentration
+    sad: { threshold: 0.6, below: 'focused', above: 'frustrated' },
+    sadness: { threshold: 0.6, below: 'focused', above: 'frustrated' },
+    fear: 'confused',
+    fearful: 'confused',
+    confused: 'confused',
+    surprise: 'surprised',
+    surprised: 'surprised',
+    disgust: 'disgusted',
+    disgusted: 'disgusted',
+    contempt: 'disgusted',
+    content: 'content'
+};
+
+export function isBuddyEmotion(value: unknown): value is BuddyEmotion {
+    return typeof value === 'string' && (BUDDY_EMOTION_IDS as readonly string[]).includes(value);
+}
+
+export function getEmotionInfo(id: string): BuddyEmotionInfo | undefined {
+    return BUDDY_EMOTIONS.find(e => e.id === id);
+}
+
+export function emotionIcon(id: string): string {
+    return getEmotionInfo(id)?.icon ?? '🎭';
+}
+
+/** Checks one `codingBuddy.emotion.labelMap` entry; returns a problem description or undefined. */
+export function validateLabelMapping(rawLabel: string, mapping: unknown): string | undefined {
+    if (isBuddyEmotion(mapping)) return undefined;
+    if (mapping && typeof mapping === 'object') {
+        const rule = mapping as Partial<LabelThresholdRule>;
+        if (typeof rule.threshold !== 'number' || rule.threshold < 0 || rule.threshold > 1) {
+            return `${rawLabel}: threshold must be a number between 0 and 1`;
+        }
+        if (!isBuddyEmotion(rule.below) || !isBuddyEmotion(rule.above)) {
+            return `${rawLabel}: below and above must be one of ${BUDDY_EMOTION_IDS.join(', ')}`;
+        }
+        return undefined;
+    }
+    return `${rawLabel}: must map to one of ${BUDDY_EMOTION_IDS.join(', ')} or a { threshold, below, above } rule`;
+}
+
+/** The built-in table with valid `codingBuddy.emotion.labelMap` entries layered on top. */
+export function getLabelMap(): { [rawLabel: string]: LabelMapping } {
+    const configured = vscode.workspace.getConfiguration('codingBuddy')
+        .get<{ [rawLabel: string]: unknown }>('emotion.labelMap', {});
+    const map = { ...DEFAULT_LABEL_MAP };
+    for (const [rawLabel, mapping] of Object.entries(configured || {})) {
+        const problem = validateLabelMapping(rawLabel, mapping);
+        if (problem) {
+            console.warn(`⚠️ Ignoring emotion label mapping ${problem}`);
+            continue;
+        }
+        map[normalizeLabel(rawLabel)] = mapping as LabelMapping;
+    }
+    return map;
+}
+
+/** The form model labels are compared in everywhere: trimmed and lower-cased. */
+export function normalizeLabel(rawLabel: string): string {
+    return rawLabel.trim().toLowerCase();
+}
+
+/** Maps a model's label (any case) and confidence to a buddy emotion. */
+export function mapEmotionLabel(rawLabel: string, confidence: number, map = getLabelMap()): BuddyEmotion {
+    const mapping = map[normalizeLabel(rawLabel)];
+    if (mapping === undefined) {
+        console.warn(`⚠️ Unmapped emotion label "${rawLabel}", reporting ${FALLBACK_EMOTION}`);
+        return FALLBACK_EMOTION;
+    }
+    if (typeof mapping === 'string') return mapping;
+    return confidence < mapping.threshold ? mapping.below : mapping.above;
+}
+
+/** Every buddy emotion a model with these labels can produce. */
+export function emotionsForLabels(rawLabels: string[]): BuddyEmotion[] {
+    const map = getLabelMap();
+    const emotions = new Set<BuddyEmotion>();
+    for (const rawLabel of rawLabels) {
+        const mapping = map[rawLabel.toLowerCase()] ?? FALLBACK_EMOTION;
+        if (typeof mapping === 'string') {
+            emotions.add(mapping);
+        } else {
+            emotions.add(mapping.below).add(mapping.above);
+        }
+    }
+    return BUDDY_EMOTION_IDS.filter(id => emotions.has(id));
+}
@@ -4,29 +4,95 @@ import { StatusBarManager } from "./statusBarManager";
 import { BotInterface } from "./botInterface";
 import { CodeAnalyzer } from "./codeAnalyzer";
 import { BulkInsertMonitor } from "./bulkInsertMonitor";
+import { SessionStore, PauseReason } from "./sessionStore";
+import { SessionPersistence } from "./sessionPersistence";
+import { SessionHistoryPanel } from "./sessionHistoryPanel";
+import { IdleDetector } from "./idleDetector";
+import { SessionAutoStarter } from "./sessionAutoStarter";
+import { BuddyEventBus } from "./buddyEventBus";
+import { ThemeManager } from "./themeManager";
+import { CodingBuddyApi, createCodingBuddyApi } from "./api";
+import { StatusServer } from "./statusServer";
+import { AchievementEngine } from "./achievementEngine";
+import { GoalTracker } from "./goalTracker";
+import { BadgeStore } from "./badgeStore";
+import { BadgeGalleryPanel } from "./badgeGalleryPanel";
+import { XpTracker } from "./xpTracker";
+import { EmotionCalibration } from "./emotionCalibration";
+import { BUDDY_EMOTIONS } from "./emotionTaxonomy";
+import { ApiKeyStore } from "./apiKeyStore";
+import { FrameRetention } from "./frameRetention";
 
 let codingBuddyBot: CodingBuddyBot;
 let statusBarManager: StatusBarManager;
 let botInterface: BotInterface;
 let codeAnalyzer: CodeAnalyzer;
+let sessionStore: SessionStore;
+let sessionPersistence: SessionPersistence;
+let sessionHistoryPanel: SessionHistoryPanel;
 
-export function activate(context: vscode.ExtensionContext) {
+export function activate(context: vscode.ExtensionContext): CodingBuddyApi {
   console.log("Coding Buddy Bot is now active!");
 
+  const events = BuddyEventBus.getInstance();
+
+  // Roboflow and Gemini keys come from the OS keychain, never from the bundle
+  const apiKeys = ApiKeyStore.getInstance();
+  apiKeys.setSecretStorage(context.secrets);
+  context.subscriptions.push(apiKeys);
+
+  // Saved camera frames: encryption key in the keychain, caps applied to frames left by earlier sessions
+  const frameRetention = FrameRetention.getInstance();
+  frameRetention.setSecretStorage(context.secrets);
+  frameRetention.enforcePolicy();
+
+  // Theme switching follows emotions published on the bus
+  ThemeManager.getInstance();
+
   // Initialize the coding buddy bot
   codingBuddyBot = new CodingBuddyBot();
+  context.subscriptions.push(codingBuddyBot);
 
   // Init status bar badge button (🏅 counter w/ Quick Pick)
   codingBuddyBot.initUI(context);
 
-  // Initialize status bar manager
-  statusBarManager = new StatusBarManager();
+  // Persist finished sessions across restarts
+  sessionStore = new SessionStore(context.globalState, context.globalStorageUri);
+  sessionPersistence = new SessionPersistence(sessionStore);
+  context.subscriptions.push(sessionPersistence);
+  codingBuddyBot.setSessionStore(sessionStore);
+  sessionHistoryPanel = new SessionHistoryPanel(sessionStore, sessionPersistence);
+  context.subscriptions.push(sessionHistoryPanel);
+
+  // Every badge ever earned, seeded once from older session history
+  const badgeStore = new BadgeStore(context.globalState, context.globalStorageUri);
+  codingBuddyBot.setBadgeStore(badgeStore);
+  badgeStore.importLegacyBadges(sessionStore.getSessions()).then(undefined, (error) => {
+    console.error("❌ Failed to import badges:", error);
+  });
+
+  // Lifetime achievements evaluated from bus events
+  const achievementEngine = new AchievementEngine(context.globalState, badgeStore);
+  const badgeGalleryPanel = new BadgeGalleryPanel(badgeStore, achievementEngine);
+  context.subscriptions.push(achievementEngine, badgeGalleryPanel);
+
+  // Per-user thresholds from the calibration wizard, applied to every analyzed frame
+  const emotionCalibration = new EmotionCalibration(context.globalState);
+  codingBuddyBot.getEmotionDetector().setCalibration(emotionCalibration);
 
-  // Initialize bot interface (your webview UI)
+  // Status bar and webview subscribe to session/emotion events themselves
+  statusBarManager = new StatusBarManager();
   botInterface = new BotInterface();
+  context.subscriptions.push(statusBarManager, botInterface);
+
+  // Daily goals + streaks, shown next to the 🏅 badge counter
+  context.subscriptions.push(
+    new GoalTracker(codingBuddyBot, sessionStore, context.globalState)
+  );
 
-  // Let the bot update the webview's emotion/status directly
-  codingBuddyBot.setBotInterface(botInterface);
+  // XP and levels; publishes the unlocked avatar to the bot panel
+  const xpTracker = new XpTracker(context.globalState);
+  context.subscriptions.push(xpTracker);
 
   // Initialize bulk insert monitor first so we can consult it in callbacks
   const bulkMonitor = new BulkInsertMonitor(context.extensionPath);
@@ -36,68 +102,54 @@ export function activate(context: vscode.ExtensionContext) {
     )
   );
 
-  // Initialize code analyzer
+  // Initialize code analyzer (publishes errorFixed / emotionDetected)
   codeAnalyzer = new CodeAnalyzer();
-  
-  // Set up error fix celebration callback
-  codeAnalyzer.setErrorFixCallback((errorCount, fileName) => {
-    codingBuddyBot.celebrateErrorFix(errorCount, fileName);
-  });
-  
-  codeAnalyzer.setEmotionCallback((emotion, reason) => {
-    console.log(
-      `[EXTENSION] Emotion callback triggered: ${emotion}, reason: ${reason}`
-    );
-    botInterface.updateEmotion(emotion, reason);
-
-    const currentAnalysis = codeAnalyzer.getCurrentAnalysis();
-    if (currentAnalysis) {
-      botInterface.updateCodeStats({
-        lineCount: currentAnalysis.lineCount,
-        errorCount: currentAnalysis.errorCount,
-        complexity: currentAnalysis.complexity,
-        quality: currentAnalysis.quality,
-      });
-    }
 
-    // Handle theme switching for code-based emotions
-    const themeManager = require("./themeManager").ThemeManager.getInstance();
-    themeManager.handleEmotionChange(emotion, 0.8); // High confidence for code-based emotions
-
-    // Suppress motivational popups if a recent large insert is under review OR if session is not active
-    const activeDoc = vscode.window.activeTextEditor?.document;
-    const suppress =
-      bulkMonitor.isInReviewWindow(activeDoc?.uri) ||
-      !codingBuddyBot.isSessionActive();
-
-    switch (emotion) {
-      case "frustrated":
-        if (!suppress) {
-          vscode.window.showInformationMessage(
-            `😤 ${reason} - Don't worry, debugging is part of the journey! 💪`
-          );
-        }
-        break;
-      case "happy":
-        if (!suppress) {
-          vscode.window.showInformationMessage(
-            `😊 ${reason} - You're on fire! 🔥`
-          );
-        }
-        break;
-    }
-  });
+  // Opt-in localhost JSON/WebSocket endpoint (codingBuddy.statusServer.*)
+  context.subscriptions.push(new StatusServer(codingBuddyBot, codeAnalyzer));
+
+  context.subscriptions.push(
+    events.on("emotionDetected", ({ emotion, source, reason }) => {
+      if (source !== "code") return;
+
+      const currentAnalysis = codeAnalyzer.getCurrentAnalysis();
+      if (currentAnalysis) {
+        botInterface.updateCodeStats({
+          lineCount: currentAnalysis.lineCount,
+          errorCount: currentAnalysis.errorCount,
+          complexity: currentAnalysis.complexity,
+          quality: currentAnalysis.quality,
+        });
+      }
+
+      // Suppress motivational popups if a recent large insert is under review OR if session is not active
+      const activeDoc = vscode.window.activeTextEditor?.document;
+      const suppress =
+        bulkMonitor.isInReviewWindow(activeDoc?.uri) ||
+        !codingBuddyBot.isSessionActive();
+
+      switch (emotion) {
+        case "frustrated":
+          if (!suppress) {
+            vscode.window.showInformationMessage(
+              `😤 ${reason} - Don't worry, debugging is part of the journey! 💪`
+            );
+          }
+          break;
+        case "happy":
+          if (!suppress) {
+            vscode.window.showInformationMessage(
+              `😊 ${reason} - You're on fire! 🔥`
+            );
+          }
+          break;
+      }
+    })
+  );
 
   // -------------------------
   // Register commands
   // -------------------------
-  let sessionTimer: NodeJS.Timeout | undefined;
-  let sessionStartTime = 0;
-
-  // track last values locally to avoid poking BotInterface internals
-  let lastBreakthroughs = -1;
-  let lastFocusTime = -1;
-
   // Start Session
   const startSession = vscode.commands.registerCommand(
     "coding-buddy-bot.startSession",
@@ -111,37 +163,10 @@ export function activate(context: vscode.ExtensionContext) {
       codingBuddyBot.setBadgeIntervalMinutes(0.5); // ~30s
 
       codingBuddyBot.startSession();
-      statusBarManager.updateStatus("🟢 Active");
+      idleDetector.markActivity(); // starting a session counts as activity
       vscode.window.showInformationMessage(
         "🚀 Coding Buddy Bot session started! Let's code together!"
       );
-      sessionStartTime = Date.now();
-
-      // Start timer + water reminders in your webview
-      botInterface.startTimer();
-      botInterface.startWaterReminder();
-
-      // Update bot interface (only when values change)
-      if (sessionTimer) clearInterval(sessionTimer);
-      sessionTimer = setInterval(() => {
-        const currentBreakthroughs =
-          (codingBuddyBot as any)["breakthroughCount"] || 0;
-        const currentFocusTime = (codingBuddyBot as any)["focusTime"] || 0;
-
-        if (
-          currentBreakthroughs !== lastBreakthroughs ||
-          currentFocusTime !== lastFocusTime
-        ) {
-          // Let the webview own the visible clock; we only push counts here
-          botInterface.updateSessionStats(
-            0,
-            currentBreakthroughs,
-            currentFocusTime
-          );
-          lastBreakthroughs = currentBreakthroughs;
-          lastFocusTime = currentFocusTime;
-        }
-      }, 1000);
     }
   );
 
@@ -150,34 +175,80 @@ export function activate(context: vscode.ExtensionContext) {
     "coding-buddy-bot.stopSession",
     () => {
       codingBuddyBot.stopSession();
-      statusBarManager.updateStatus("🔴 Inactive");
       vscode.window.showInformationMessage(
         "👋 Coding Buddy Bot session ended. Great work today!"
       );
+    }
+  );
 
-      // Stop timer and water reminders
-      botInterface.stopTimer();
-      botInterface.stopWaterReminder();
+  // Shared by the pause/resume commands and idle detection
+  const pauseActiveSession = (reason: PauseReason, since?: number) => {
+    if (!codingBuddyBot.isSessionActive() || codingBuddyBot.isSessionPaused()) {
+      return;
+    }
+    codingBuddyBot.pauseSession(reason, since);
+  };
 
-      if (sessionTimer) {
-        clearInterval(sessionTimer);
-        sessionTimer = undefined;
-      }
+  const resumeActiveSession = () => {
+    if (!codingBuddyBot.isSessionPaused()) {
+      return;
+    }
+    codingBuddyBot.resumeSession();
+  };
 
-      // Final update to bot interface with last session duration
-      const elapsed = Date.now() - sessionStartTime;
-      botInterface.updateSessionStats(
-        elapsed,
-        (codingBuddyBot as any)["breakthroughCount"] || 0,
-        (codingBuddyBot as any)["focusTime"] || 0
+  // Pause Session
+  const pauseSession = vscode.commands.registerCommand(
+    "coding-buddy-bot.pauseSession",
+    () => {
+      if (!codingBuddyBot.isSessionActive()) {
+        vscode.window.showWarningMessage("Please start a coding session first!");
+        return;
+      }
+      pauseActiveSession("manual");
+      vscode.window.showInformationMessage(
+        "⏸️ Session paused. Take your time, I'll be here when you're back!"
       );
+    }
+  );
 
-      // reset local trackers
-      lastBreakthroughs = -1;
-      lastFocusTime = -1;
+  // Resume Session
+  const resumeSession = vscode.commands.registerCommand(
+    "coding-buddy-bot.resumeSession",
+    () => {
+      if (!codingBuddyBot.isSessionPaused()) {
+        return;
+      }
+      resumeActiveSession();
+      vscode.window.showInformationMessage("▶️ Session resumed. Let's go!");
     }
   );
 
+  // Auto-pause while the developer is away, resume on their next interaction
+  const idleDetector = new IdleDetector();
+  context.subscriptions.push(idleDetector);
+
+  idleDetector.setIdleCallback((idleSince) => {
+    if (!codingBuddyBot.isSessionActive() || codingBuddyBot.isSessionPaused()) {
+      return;
+    }
+    pauseActiveSession("idle", idleSince);
+    vscode.window.showInformationMessage(
+      "💤 Looks like you stepped away, so I paused your session. It'll resume when you're back."
+    );
+  });
+
+  idleDetector.setActiveCallback(() => {
+    // Only undo pauses we made; a manual pause stays until the user resumes
+    if (codingBuddyBot.getPauseReason() === "idle") {
+      resumeActiveSession();
+      vscode.window.showInformationMessage("👋 Welcome back! Session resumed.");
+    }
+  });
+
+  // Rule-based auto start/stop (codingBuddy.autoStart.*)
+  const sessionAutoStarter = new SessionAutoStarter(codingBuddyBot, idleDetector);
+  context.subscriptions.push(sessionAutoStarter);
+
   const showBot = vscode.commands.registerCommand(
     "coding-buddy-bot.showBot",
     () => {
@@ -243,7 +314,7 @@ export function activate(context: vscode.ExtensionContext) {
   const toggleThemeSwitching = vscode.commands.registerCommand(
     "coding-buddy-bot.toggleThemeSwitching",
     () => {
-      const themeManager = require("./themeManager").ThemeManager.getInstance();
+      const themeManager = ThemeManager.getInstance();
       const isEnabled = themeManager.isThemeSwitchingEnabled();
       themeManager.setEnabled(!isEnabled);
     }
@@ -252,7 +323,7 @@ export function activate(context: vscode.ExtensionContext) {
   const resetTheme = vscode.commands.registerCommand(
     "coding-buddy-bot.resetTheme",
     async () => {
-      const themeManager = require("./themeManager").ThemeManager.getInstance();
+      const themeManager = ThemeManager.getInstance();
       await themeManager.resetToDefaultTheme();
     }
   );
@@ -261,21 +332,11 @@ export function activate(context: vscode.ExtensionContext) {
     "coding-buddy-bot.previewTheme",
     async () => {
       const emotion = await vscode.window.showQuickPick(
-        [
-          "happy",
-          "focused",
-          "frustrated",
-          "confused",
-          "surprised",
-          "sad",
-          "disgusted",
-          "content",
-        ],
+        BUDDY_EMOTIONS.map((e) => e.id),
         { placeHolder: "Select emotion to preview theme" }
       );
       if (emotion) {
-        const themeManager =
-          require("./themeManager").ThemeManager.getInstance();
+        const themeManager = ThemeManager.getInstance();
         await themeManager.previewTheme(emotion);
       }
     }
@@ -303,7 +364,7 @@ export function activate(context: vscode.ExtensionContext) {
   const testThemeChange = vscode.commands.registerCommand(
     "coding-buddy-bot.testThemeChange",
     async () => {
-      const themeManager = require("./themeManager").ThemeManager.getInstance();
+      const themeManager = ThemeManager.getInstance();
 
       // Test if theme switching is enabled
       const isEnabled = themeManager.isThemeSwitchingEnabled();
@@ -344,10 +405,77 @@ export function activate(context: vscode.ExtensionContext) {
     }
   );
 
+  const manageEmotionModels = vscode.commands.registerCommand(
+    "coding-buddy-bot.manageEmotionModels",
+    () => codingBuddyBot.getEmotionDetector().getMultiModelDetector().showManageModelsQuickPick()
+  );
+
+  const calibrateEmotions = vscode.commands.registerCommand(
+    "coding-buddy-bot.calibrateEmotions",
+    () => emotionCalibration.runWizard(codingBuddyBot.getEmotionDetector())
+  );
+
+  const resetEmotionCalibration = vscode.commands.registerCommand(
+    "coding-buddy-bot.resetEmotionCalibration",
+    async () => {
+      await emotionCalibration.clear();
+      vscode.window.showInformationMessage("🎯 Emotion calibration reset to the default mapping.");
+    }
+  );
+
+  const setApiKey = vscode.commands.registerCommand(
+    "coding-buddy-bot.setApiKey",
+    () => apiKeys.showSetKeyQuickPick()
+  );
+
+  const clearApiKey = vscode.commands.registerCommand(
+    "coding-buddy-bot.clearApiKey",
+    () => apiKeys.showClearKeyQuickPick()
+  );
+
+  const purgeCapturedFrames = vscode.commands.registerCommand(
+    "coding-buddy-bot.purgeCapturedFrames",
+    () => frameRetention.showPurgeConfirmation()
+  );
+
+  const showSessionHistory = vscode.commands.registerCommand(
+    "coding-buddy-bot.showSessionHistory",
+    () => sessionHistoryPanel.show()
+  );
+
+  const showAchievements = vscode.commands.registerCommand(
+    "coding-buddy-bot.showAchievements",
+    () => achievementEngine.showAchievementsQuickPick()
+  );
+
+  const showBadgeGallery = vscode.commands.registerCommand(
+    "coding-buddy-bot.showBadgeGallery",
+    () => badgeGalleryPanel.show()
+  );
+
+  const claimBadge = vscode.commands.registerCommand(
+    "coding-buddy-bot.claimBadge",
+    (badgeId?: string) => codingBuddyBot.claimBadge(badgeId)
+  );
+
+  const showLevel = vscode.commands.registerCommand(
+    "coding-buddy-bot.showLevel",
+    () => xpTracker.showLevelQuickPick()
+  );
+
+  const exportSessionReport = vscode.commands.registerCommand(
+    "coding-buddy-bot.exportSessionReport",
+    async () => {
+      await codingBuddyBot.exportSessionReport();
+    }
+  );
+
   // One push with everything
   context.subscriptions.push(
     startSession,
     stopSession,
+    pauseSession,
+    resumeSession,
     showBot,
     toggleCamera,
     testWebcam,
@@ -360,7 +488,19 @@ export function activate(context: vscode.ExtensionContext) {
     previewTheme,
     debugEmotionDetection,
     testThemeChange,
-    toggleMultiModelDetection
+    toggleMultiModelDetection,
+    manageEmotionModels,
+    calibrateEmotions,
+    resetEmotionCalibration,
+    setApiKey,
+    clearApiKey,
+    purgeCapturedFrames,
+    showSessionHistory,
+    exportSessionReport,
+    showAchievements,
+    showBadgeGallery,
+    claimBadge,
+    showLevel
   );
 
   // Initial status
@@ -368,18 +508,26 @@ export function activate(context: vscode.ExtensionContext) {
 
   // Health reminder timers
   startHealthReminders();
+
+  // Kick off a session if this window matches the auto-start rules
+  sessionAutoStarter.evaluateOnActivation();
+
+  return createCodingBuddyApi(codingBuddyBot);
 }
 
-export function deactivate() {
+export async function deactivate() {
   if (codingBuddyBot) {
     codingBuddyBot.stopSession();
   }
+  if (sessionPersistence) {
+    await sessionPersistence.flush();
+  }
 }
 
 function startHealthReminders() {
   // Remind to take breaks every 50 minutes
   setInterval(() => {
-    if (codingBuddyBot && codingBuddyBot.isSessionActive()) {
+    if (codingBuddyBot && codingBuddyBot.isSessionActive() && !codingBuddyBot.isSessionPaused()) {
       vscode.window.showInformationMessage(
         "💡 Time for a quick break! Stretch those fingers and grab some water!"
       );
@@ -388,7 +536,7 @@ function startHealthReminders() {
 
   // Remind to blink every 20 minutes
   setInterval(() => {
-    if (codingBuddyBot && codingBuddyBot.isSessionActive()) {
+    if (codingBuddyBot && codingBuddyBot.isSessionActive() && !codingBuddyBot.isSessionPaused()) {
       vscode.window.showInformationMessage(
         "👁️ Remember to blink! Your eyes need a break from the screen."
       );
@@ -0,0 +1,123 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as jpeg from 'jpeg-js';
+import { EmotionBackend, EmotionBackendResult } from './emotionBackend';
+import { mapEmotionLabel, emotionsForLabels } from './emotionTaxonomy';
+
+type FaceApi = typeof import('@vladmandic/face-api/dist/face-api.node-wasm.js');
+type Tf = typeof import('@tensorflow/tfjs');
+type TfWasm = typeof import('@tensorflow/tfjs-backend-wasm');
+
+// Expressions the face-api model scores every face on
+const FACE_API_EXPRESSIONS = ['neutral', 'happy', 'sad', 'angry', 'fearful', 'disgusted', 'surprised'];
+
+/**
+ * On-device emotion detection with face-api's tiny face detector and expression model,
+ * running on TensorFlow.js' WASM backend. Model weights and WASM binaries are read from
+ * the extension's own node_modules, so nothing is downloaded and frames never leave
+ * the machine.
+ */
+export class FaceApiEmotionBackend implements EmotionBackend {
+    public readonly id = 'faceapi';
+    public readonly displayName = 'face-api (on-device)';
+    public readonly onDevice = true;
+
+    // TensorFlow's backend and the loaded nets are process-wide, so load them once
+    private static loading: Promise<FaceApi> | undefined;
+
+    private faceapi: FaceApi | undefined;
+
+    public async initialize(): Promise<boolean> {
+        try {
+            this.faceapi = await FaceApiEmotionBackend.load();
+            console.log('✅ face-api emotion detection initialized (on-device)');
+            return true;
+        } catch (error) {
+            console.error('❌ Failed to initialize face-api:', error);
+            vscode.window.showErrorMessage(`❌ On-device emotion detection unavailable: ${error instanceof Error ? error.message : error}`);
+            return false;
+        }
+    }
+
+    private static load(): Promise<FaceApi> {
+        if (!FaceApiEmotionBackend.loading) {
+            FaceApiEmotionBackend.loading = FaceApiEmotionBackend.loadModels();
+            // a failed load can be retried on the next session
+            FaceApiEmotionBackend.loading.catch(() => { FaceApiEmotionBackend.loading = undefined; });
+        }
+        return FaceApiEmotionBackend.loading;
+    }
+
+    private static async loadModels(): Promise<FaceApi> {
+        // Required lazily so the default cloud backend never pays for loading TensorFlow
+        const tf: Tf = require('@tensorflow/tfjs');
+        const wasm: TfWasm = require('@tensorflow/tfjs-backend-wasm');
+        const faceapi: FaceApi = require('@vladmandic/face-api/dist/face-api.node-wasm.js');
+
+        const wasmDir = path.dirname(require.resolve('@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm.wasm'));
+        wasm.setWasmPaths(wasmDir + path.sep);
+        await tf.setBackend('wasm');
+        await tf.ready();
+
+        const modelDir = FaceApiEmotionBackend.getModelDir();
+        console.log(`🔧 Loading face-api models from ${modelDir}`);
+        await faceapi.nets.tinyFaceDetector.loadFromDisk(modelDir);
+        await faceapi.nets.faceExpressionNet.loadFromDisk(modelDir);
+        return faceapi;
+    }
+
+    /** `codingBuddy.emotion.faceApi.modelPath`, or the weights bundled with face-api. */
+    private static getModelDir(): string {
+        const configured = vscode.workspace.getConfiguration('codingBuddy').get<string>('emotion.faceApi.modelPath', '');
+        const dir = configured || path.join(path.dirname(require.resolve('@vladmandic/face-api/package.json')), 'model');
+        if (!fs.existsSync(path.join(dir, 'face_expression_model-weights_manifest.json'))) {
+            throw new Error(`face-api model weights not found in ${dir}`);
+        }
+        return dir;
+    }
+
+    public async detectFromBuffer(imageBuffer: Buffer): Promise<EmotionBackendResult | null> {
+        const faceapi = this.faceapi;
+        if (!faceapi) {
+            throw new Error('face-api backend not initialized');
+        }
+
+        const image = jpeg.decode(imageBuffer, { useTArray: true, formatAsRGBA: false });
+        const tensor = faceapi.tf.tensor3d(image.data, [image.height, image.width, 3], 'int32');
+        try {
+            const detection = await faceapi
+                .detectSingleFace(tensor, new faceapi.TinyFaceDetectorOptions({ inputSize: 320, scoreThreshold: 0.4 }))
+                .withFaceExpressions();
+            if (!detection) {
+                console.log('❌ face-api found no face in the frame');
+                return null;
+            }
+
+            const [expression, confidence] = Object.entries(detection.expressions)
+                .reduce((best, current) => current[1] > best[1] ? current : best);
+
+            const emotion = mapEmotionLabel(expression, confidence);
+
+            const box = detection.detection.box;
+            console.log(`🎯 face-api: ${expression} (${Math.round(confidence * 100)}%) → ${emotion}`);
+            return {
+                emotion,
+                confidence,
+                rawClass: expression,
+                boundingBox: { x: box.x, y: box.y, width: box.width, height: box.height }
+            };
+        } finally {
+            tensor.dispose();
+        }
+    }
+
+    public supportedEmotions(): string[] {
+        return emotionsForLabels(FACE_API_EXPRESSIONS);
+    }
+
+    public dispose(): void {
+        // the shared models stay loaded for the next session
+        this.faceapi = undefined;
+    }
+}
@@ -0,0 +1,327 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as jpeg from 'jpeg-js';
+import { WebcamManager } from './webcamManager';
+import { EmotionBackendResult } from './emotionBackend';
+
+/**
+ * What is kept of a saved frame:
+ * - `none`: the frame as captured
+ * - `blurFace`: the detected face blurred, or the whole frame when no face box was reported
+ * - `cropFace`: only the detected face; frames without a face box are not kept
+ */
+export type FrameRedaction = 'none' | 'blurFace' | 'cropFace';
+
+export const FRAME_REDACTIONS: FrameRedaction[] = ['none', 'blurFace', 'cropFace'];
+
+export type FaceBox = NonNullable<EmotionBackendResult['boundingBox']>;
+
+export interface FrameRetentionPolicy {
+    save: boolean;
+    maxCount: number;
+    maxBytes: number;
+    maxAgeMs: number;
+    redaction: FrameRedaction;
+    encrypt: boolean;
+}
+
+export interface StoredFrame {
+    file: string; // absolute path
+    bytes: number;
+    savedAt: number;
+}
+
+interface Rect {
+    x0: number;
+    y0: number;
+    x1: number;
+    y1: number;
+}
+
+type RgbaImage = jpeg.RawImageData<Uint8Array>;
+
+const FRAME_FILE = /^frame_\d+_\d+\.jpg(\.enc)?$/;
+const ENCRYPTED_SUFFIX = '.enc';
+const ENCRYPTED_MAGIC = Buffer.from('CBF1'); // format version, then IV, auth tag and ciphertext
+const KEY_SECRET = 'codingBuddy.frameEncryptionKey';
+const FACE_PADDING = 0.15; // share of the face box added on each side, so the whole head is covered
+const JPEG_QUALITY = 85;
+
+/** `codingBuddy.frames.*`, read whenever a frame is saved or the policy is enforced. */
+export function getRetentionPolicy(): FrameRetentionPolicy {
+    const cfg = vscode.workspace.getConfiguration('codingBuddy');
+    const redaction = cfg.get<string>('frames.redaction', 'none');
+    return {
+        save: cfg.get<boolean>('frames.save', true),
+        maxCount: Math.max(1, cfg.get<number>('frames.maxCount', 200)),
+        maxBytes: Math.max(1, cfg.get<number>('frames.maxSizeMB', 50)) * 1024 * 1024,
+        maxAgeMs: Math.max(1, cfg.get<number>('frames.maxAgeHours', 24)) * 60 * 60 * 1000,
+        redaction: FRAME_REDACTIONS.includes(redaction as FrameRedaction) ? redaction as FrameRedaction : 'none',
+        encrypt: cfg.get<boolean>('frames.encrypt', false)
+    };
+}
+
+export function isFrameFile(fileName: string): boolean {
+    return FRAME_FILE.test(fileName);
+}
+
+/** The face box grown by FACE_PADDING and clipped to the image; undefined when nothing is left. */
+function faceRect(image: RgbaImage, box: FaceBox): Rect | undefined {
+    const padX = box.width * FACE_PADDING;
+    const padY = box.height * FACE_PADDING;
+    const rect = {
+        x0: Math.max(0, Math.floor(box.x - padX)),
+        y0: Math.max(0, Math.floor(box.y - padY)),
+        x1: Math.min(image.width, Math.ceil(box.x + box.width + padX)),
+        y1: Math.min(image.height, Math.ceil(box.y + box.height + padY))
+    };
+    return rect.x1 > rect.x0 && rect.y1 > rect.y0 ? rect : undefined;
+}
+
+/** Sliding-window average of one row or column of RGB values; alpha is left alone. */
+function blurLine(data: Uint8Array, start: number, stride: number, length: number, radius: number, line: Float32Array): void {
+    for (let i = 0; i < length; i++) {
+        for (let c = 0; c < 3; c++) line[i * 3 + c] = data[start + i * stride + c];
+    }
+    const at = (i: number) => Math.min(length - 1, Math.max(0, i)) * 3;
+    const size = radius * 2 + 1;
+    for (let c = 0; c < 3; c++) {
+        let sum = 0;
+        for (let k = -radius; k <= radius; k++) sum += line[at(k) + c];
+        for (let i = 0; i < length; i++) {
+            data[start + i * stride + c] = Math.round(sum / size);
+            sum += line[at(i + radius + 1) + c] - line[at(i - radius) + c];
+        }
+    }
+}
+
+/** Three box-blur passes, close to a Gaussian, over one rectangle of the image. */
+function blurRect(image: RgbaImage, rect: Rect, radius: number): void {
+    const width = rect.x1 - rect.x0;
+    const height = rect.y1 - rect.y0;
+    const line = new Float32Array(Math.max(width, height) * 3);
+    for (let pass = 0; pass < 3; pass++) {
+        for (let y = rect.y0; y < rect.y1; y++) {
+            blurLine(image.data, (y * image.width + rect.x0) * 4, 4, width, radius, line);
+        }
+        for (let x = rect.x0; x < rect.x1; x++) {
+            blurLine(image.data, (rect.y0 * image.width + x) * 4, image.width * 4, height, radius, line);
+        }
+    }
+}
+
+function cropRect(image: RgbaImage, rect: Rect): RgbaImage {
+    const width = rect.x1 - rect.x0;
+    const height = rect.y1 - rect.y0;
+    const data = new Uint8Array(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        const from = ((rect.y0 + y) * image.width + rect.x0) * 4;
+        data.set(image.data.subarray(from, from + width * 4), y * width * 4);
+    }
+    return { width, height, data };
+}
+
+/** Applies the redaction to a JPEG frame; returns undefined when the frame should not be kept. */
+export function redactFrame(imageBuffer: Buffer, redaction: FrameRedaction, box?: FaceBox): Buffer | undefined {
+    if (redaction === 'none') return imageBuffer;
+
+    const image = jpeg.decode(imageBuffer, { useTArray: true, formatAsRGBA: true });
+    const rect = box ? faceRect(image, box) : undefined;
+
+    if (redaction === 'cropFace') {
+        return rect ? jpeg.encode(cropRect(image, rect), JPEG_QUALITY).data : undefined;
+    }
+
+    const target = rect ?? { x0: 0, y0: 0, x1: image.width, y1: image.height };
+    const radius = Math.max(6, Math.round(Math.min(target.x1 - target.x0, target.y1 - target.y0) / 10));
+    blurRect(image, target, radius);
+    return jpeg.encode(image, JPEG_QUALITY).data;
+}
+
+export function encryptFrame(data: Buffer, key: Buffer): Buffer {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(data), cipher.final()]);
+    return Buffer.concat([ENCRYPTED_MAGIC, iv, cipher.getAuthTag(), ciphertext]);
+}
+
+export function decryptFrame(data: Buffer, key: Buffer): Buffer {
+    if (!data.subarray(0, ENCRYPTED_MAGIC.length).equals(ENCRYPTED_MAGIC)) {
+        throw new Error('Not an encrypted Coding Buddy frame');
+    }
+    const ivStart = ENCRYPTED_MAGIC.length;
+    const tagStart = ivStart + 12;
+    const dataStart = tagStart + 16;
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, data.subarray(ivStart, tagStart));
+    decipher.setAuthTag(data.subarray(tagStart, dataStart));
+    return Buffer.concat([decipher.update(data.subarray(dataStart)), decipher.final()]);
+}
+
+/**
+ * Saved camera frames in the webcam temp directory: redacts and optionally encrypts each
+ * frame before it touches disk, and keeps the directory within the count, size and age caps
+ * of `codingBuddy.frames.*`. The encryption key lives in SecretStorage, never next to the frames.
+ */
+export class FrameRetention {
+    private static instance: FrameRetention;
+    private secrets: vscode.SecretStorage | undefined;
+    private frameIndex: number = 0;
+
+    private constructor() {}
+
+    public static getInstance(): FrameRetention {
+        if (!FrameRetention.instance) {
+            FrameRetention.instance = new FrameRetention();
+        }
+        return FrameRetention.instance;
+    }
+
+    public setSecretStorage(secrets: vscode.SecretStorage): void {
+        this.secrets = secrets;
+    }
+
+    public getFrameDirectory(): string {
+        return WebcamManager.getInstance().getTempDir();
+    }
+
+    /**
+     * Stores one analyzed frame under the current policy and then enforces the caps.
+     * Resolves the saved path, or undefined when the redaction dropped the frame.
+     */
+    public async saveFrame(imageBuffer: Buffer, box?: FaceBox): Promise<string | undefined> {
+        const policy = getRetentionPolicy();
+        let data = redactFrame(imageBuffer, policy.redaction, box);
+        if (!data) {
+            console.log('📸 No face box for this frame; not saved (codingBuddy.frames.redaction is cropFace)');
+            return undefined;
+        }
+
+        let fileName = `frame_${this.frameIndex++}_${Date.now()}.jpg`;
+        if (policy.encrypt) {
+            const key = await this.getEncryptionKey(true);
+            if (!key) {
+                console.warn('⚠️ Frame encryption is on but secret storage is unavailable; frame not saved');
+                return undefined;
+            }
+            data = encryptFrame(data, key);
+            fileName += ENCRYPTED_SUFFIX;
+        }
+
+        const dir = this.getFrameDirectory();
+        fs.mkdirSync(dir, { recursive: true });
+        const filePath = path.join(dir, fileName);
+        fs.writeFileSync(filePath, data);
+
+        this.enforcePolicy(policy);
+        return filePath;
+    }
+
+    /** Reads a saved frame back as JPEG, decrypting it if it was stored encrypted. */
+    public async readFrame(filePath: string): Promise<Buffer> {
+        const data = fs.readFileSync(filePath);
+        if (!filePath.endsWith(ENCRYPTED_SUFFIX)) return data;
+
+        const key = await this.getEncryptionKey(false);
+        if (!key) throw new Error('The key for encrypted frames is gone; they can no longer be read');
+        return decryptFrame(data, key);
+    }
+
+    /** Saved frames, oldest first. */
+    public listFrames(): StoredFrame[] {
+        const dir = this.getFrameDirectory();
+        if (!fs.existsSync(dir)) return [];
+
+        const frames: StoredFrame[] = [];
+        for (const name of fs.readdirSync(dir)) {
+            if (!isFrameFile(name)) continue;
+            try {
+                const stats = fs.statSync(path.join(dir, name));
+                frames.push({ file: path.join(dir, name), bytes: stats.size, savedAt: stats.mtimeMs });
+            } catch {
+                // deleted between readdir and stat
+            }
+        }
+        return frames.sort((a, b) => a.savedAt - b.savedAt);
+    }
+
+    /** Deletes frames past the age cap, then the oldest until the count and size caps hold. */
+    public enforcePolicy(policy: FrameRetentionPolicy = getRetentionPolicy(), now: number = Date.now()): number {
+        const frames = this.listFrames();
+        let count = frames.length;
+        let bytes = frames.reduce((sum, f) => sum + f.bytes, 0);
+        let deleted = 0;
+
+        for (const frame of frames) {
+            const expired = now - frame.savedAt > policy.maxAgeMs;
+            if (!expired && count <= policy.maxCount && bytes <= policy.maxBytes) break;
+            if (this.deleteFile(frame.file)) {
+                count--;
+                bytes -= frame.bytes;
+                deleted++;
+            }
+        }
+
+        if (deleted > 0) {
+            console.log(`🗑️ Frame retention removed ${deleted} frame(s); ${count} kept (${(bytes / 1024 / 1024).toFixed(1)} MB)`);
+        }
+        return deleted;
+    }
+
+    /** Deletes every saved frame and leftover capture, and forgets the encryption key. */
+    public async purgeAll(): Promise<number> {
+        const dir = this.getFrameDirectory();
+        let deleted = 0;
+        if (fs.existsSync(dir)) {
+            for (const name of fs.readdirSync(dir)) {
+                if (this.deleteFile(path.join(dir, name)) && isFrameFile(name)) deleted++;
+            }
+        }
+        // Copies of encrypted frames that survive elsewhere (backups, sync) become unreadable
+        await this.secrets?.delete(KEY_SECRET);
+        return deleted;
+    }
+
+    /** "Purge All Captured Frames": confirms with the current count and size, then deletes. */
+    public async showPurgeConfirmation(): Promise<void> {
+        const frames = this.listFrames();
+        if (frames.length === 0) {
+            vscode.window.showInformationMessage('📸 No captured frames are stored.');
+            await this.purgeAll();
+            return;
+        }
+
+        const megabytes = (frames.reduce((sum, f) => sum + f.bytes, 0) / 1024 / 1024).toFixed(1);
+        const choice = await vscode.window.showWarningMessage(
+            `Delete all ${frames.length} captured frames (${megabytes} MB) in ${this.getFrameDirectory()}? This cannot be undone.`,
+            { modal: true },
+            'Delete Frames'
+        );
+        if (choice !== 'Delete Frames') return;
+
+        const deleted = await this.purgeAll();
+        vscode.window.showInformationMessage(`🗑️ Deleted ${deleted} captured frame${deleted === 1 ? '' : 's'}.`);
+    }
+
+    private deleteFile(filePath: string): boolean {
+        try {
+            fs.unlinkSync(filePath);
+            return true;
+        } catch (error) {
+            console.warn(`⚠️ Could not delete ${filePath}:`, error);
+            return false;
+        }
+    }
+
+    private async getEncryptionKey(create: boolean): Promise<Buffer | undefined> {
+        if (!this.secrets) return undefined;
+        const stored = await this.secrets.get(KEY_SECRET);
+        if (stored) return Buffer.from(stored, 'base64');
+        if (!create) return undefined;
+
+        const key = crypto.randomBytes(32);
+        await this.secrets.store(KEY_SECRET, key.toString('base64'));
+        return key;
+    }
+}
@@ -0,0 +1,223 @@
+import * as vscode from 'vscode';
+import { CodingBuddyBot } from './codingBuddyBot';
+import { BuddyEventBus } from './buddyEventBus';
+import { SessionStore, SessionRecord } from './sessionStore';
+import { startOfDay } from './sessionRollups';
+
+export interface DailyGoalProgress {
+    day: number; // epoch ms, local midnight
+    codingMinutes: number;
+    codingGoal: number; // 0 = not tracked
+    focusMinutes: number;
+    focusGoal: number; // 0 = not tracked
+    goalMet: boolean;
+    streak: number; // consecutive days meeting the goal, up to today
+    bestStreak: number;
+}
+
+interface DayTotals {
+    codingMs: number;
+    focusMs: number;
+}
+
+interface StoredDayTotals {
+    days: { [day: string]: DayTotals }; // keyed by local midnight, epoch ms
+    lastSessionId?: string; // the last stopped session added, so it is never added twice
+}
+
+/**
+ * Daily coding/focus goals and streaks computed from per-day totals plus the live session.
+ * The totals are kept in global state and grow as sessions stop, so streaks don't depend on
+ * what session history still holds. A day counts toward the streak when every goal that is
+ * switched on was met; an unfinished today does not break a streak until it is over.
+ */
+export class GoalTracker implements vscode.Disposable {
+    private static readonly REFRESH_INTERVAL_MS = 60 * 1000;
+    private static readonly CELEBRATED_KEY = 'codingBuddy.goals.lastCelebratedDay';
+    private static readonly DAY_TOTALS_KEY = 'codingBuddy.goals.dayTotals';
+
+    private statusItem: vscode.StatusBarItem;
+    private refreshTimer: NodeJS.Timeout | undefined;
+    private subscriptions: vscode.Disposable[] = [];
+    private lastProgressJson: string = '';
+    private events: BuddyEventBus = BuddyEventBus.getInstance();
+
+    constructor(
+        private readonly bot: CodingBuddyBot,
+        private readonly sessionStore: SessionStore,
+        private readonly state: vscode.Memento
+    ) {
+        // Sits right next to the 🏅 badge counter (Left, 98)
+        this.statusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 97);
+        this.statusItem.name = 'Coding Buddy Goals';
+        this.statusItem.command = 'coding-buddy-bot.showSessionHistory';
+        this.statusItem.show();
+        this.seedDayTotals();
+
+        this.subscriptions.push(
+            this.events.on('sessionStatsChanged', () => this.refresh()),
+            this.events.on('sessionStarted', () => this.refresh()),
+            this.events.on('sessionStopped', ({ record }) => {
+                this.addToDayTotals(record);
+                this.refresh();
+            }),
+            vscode.workspace.onDidChangeConfiguration((e) => {
+                if (e.affectsConfiguration('codingBuddy.goals')) this.refresh();
+            })
+        );
+
+        // Coding minutes grow with the clock, and the day can roll over
+        this.refreshTimer = setInterval(() => this.refresh(), GoalTracker.REFRESH_INTERVAL_MS);
+        this.refresh();
+    }
+
+    public getProgress(now: number = Date.now()): DailyGoalProgress {
+        const cfg = vscode.workspace.getConfiguration('codingBuddy');
+        const codingGoal = Math.max(0, cfg.get<number>('goals.dailyCodingMinutes', 60));
+        const focusGoal = Math.max(0, cfg.get<number>('goals.dailyFocusMinutes', 0));
+
+        const totals = this.collectDayTotals();
+        const today = startOfDay(now);
+        const todayTotals = totals.get(today) || { codingMs: 0, focusMs: 0 };
+
+        const isMet = (t: DayTotals | undefined): boolean =>
+            !!t && t.codingMs > 0 &&
+            t.codingMs >= codingGoal * 60 * 1000 &&
+            t.focusMs >= focusGoal * 60 * 1000;
+
+        // Today only extends the streak once it is met; otherwise count back from yesterday
+        let streak = 0;
+        let day = isMet(todayTotals) ? today : previousDay(today);
+        while (isMet(totals.get(day))) {
+            streak++;
+            day = previousDay(day);
+        }
+
+        let bestStreak = 0;
+        let run = 0;
+        let prev: number | undefined;
+        for (const d of [...totals.keys()].sort((a, b) => a - b)) {
+            if (!isMet(totals.get(d))) { run = 0; prev = undefined; continue; }
+            run = prev !== undefined && previousDay(d) === prev ? run + 1 : 1;
+            prev = d;
+            bestStreak = Math.max(bestStreak, run);
+        }
+
+        return {
+            day: today,
+            codingMinutes: Math.floor(todayTotals.codingMs / (1000 * 60)),
+            codingGoal,
+            focusMinutes: Math.floor(todayTotals.focusMs / (1000 * 60)),
+            focusGoal,
+            goalMet: isMet(todayTotals),
+            streak,
+            bestStreak
+        };
+    }
+
+    // Stored totals for finished sessions plus the one still running
+    private collectDayTotals(): Map<number, DayTotals> {
+        const totals = new Map<number, DayTotals>();
+        for (const [day, t] of Object.entries(this.readDayTotals().days)) {
+            totals.set(Number(day), { ...t });
+        }
+        const current = this.bot.getCurrentSessionRecord();
+        if (current) addSession(totals, current);
+        return totals;
+    }
+
+    // ---- Persistence ----
+
+    /** First run: build the per-day totals from the session history that exists so far. */
+    private seedDayTotals(): void {
+        if (this.state.get(GoalTracker.DAY_TOTALS_KEY) !== undefined) return;
+
+        const totals = new Map<number, DayTotals>();
+        for (const s of this.sessionStore.getSessions()) addSession(totals, s);
+        this.writeDayTotals({ days: Object.fromEntries(totals) });
+    }
+
+    private addToDayTotals(record: SessionRecord): void {
+        const stored = this.readDayTotals();
+        if (stored.lastSessionId === record.id) return;
+
+        const totals = new Map<number, DayTotals>(Object.entries(stored.days).map(([day, t]) => [Number(day), { ...t }]));
+        addSession(totals, record);
+        this.writeDayTotals({ days: Object.fromEntries(totals), lastSessionId: record.id });
+    }
+
+    private readDayTotals(): StoredDayTotals {
+        return this.state.get<StoredDayTotals>(GoalTracker.DAY_TOTALS_KEY, { days: {} });
+    }
+
+    private writeDayTotals(totals: StoredDayTotals): void {
+        this.state.update(GoalTracker.DAY_TOTALS_KEY, totals).then(undefined, error => {
+            console.error('❌ Failed to save goal state:', error);
+        });
+    }
+
+    private refresh(): void {
+        const progress = this.getProgress();
+        this.updateStatusItem(progress);
+
+        const json = JSON.stringify(progress);
+        if (json === this.lastProgressJson) return;
+        this.lastProgressJson = json;
+
+        this.events.emit('goalProgressChanged', progress);
+        this.celebrateIfReached(progress);
+    }
+
+    private updateStatusItem(p: DailyGoalProgress): void {
+        const ratios: number[] = [];
+        if (p.codingGoal > 0) ratios.push(p.codingMinutes / p.codingGoal);
+        if (p.focusGoal > 0) ratios.push(p.focusMinutes / p.focusGoal);
+        const percent = ratios.length ? Math.min(100, Math.round(Math.min(...ratios) * 100)) : 100;
+
+        this.statusItem.text = `🔥 ${p.streak}  ${p.goalMet ? '✅' : '🎯'} ${percent}%`;
+
+        const lines = [`Streak: ${p.streak} day${p.streak === 1 ? '' : 's'} (best ${p.bestStreak})`];
+        if (p.codingGoal > 0) lines.push(`Coding today: ${p.codingMinutes}/${p.codingGoal} min`);
+        if (p.focusGoal > 0) lines.push(`Focus today: ${p.focusMinutes}/${p.focusGoal} min`);
+        lines.push(p.goalMet ? 'Daily goal reached!' : 'Click to open session history');
+        this.statusItem.tooltip = lines.join('\n');
+    }
+
+    private celebrateIfReached(p: DailyGoalProgress): void {
+        if (!p.goalMet) return;
+        if (this.state.get<number>(GoalTracker.CELEBRATED_KEY) === p.day) return;
+
+        this.state.update(GoalTracker.CELEBRATED_KEY, p.day).then(undefined, error => {
+            console.error('❌ Failed to save goal state:', error);
+        });
+        this.events.emit('dailyGoalReached', { day: p.day, streak: p.streak });
+        vscode.window.showInformationMessage(
+            `🎯 Daily goal reached! You're on a ${p.streak}-day streak 🔥`
+        );
+    }
+
+    public dispose(): void {
+        if (this.refreshTimer) {
+            clearInterval(this.refreshTimer);
+            this.refreshTimer = undefined;
+        }
+        this.subscriptions.forEach(d => d.dispose());
+        this.subscriptions = [];
+        this.statusItem.dispose();
+    }
+}
+
+// Sessions are attributed to the day they started, matching the history rollups
+function addSession(totals: Map<number, DayTotals>, s: SessionRecord): void {
+    const day = startOfDay(s.startTime);
+    const t = totals.get(day) || { codingMs: 0, focusMs: 0 };
+    t.codingMs += s.durationMs;
+    t.focusMs += s.focusTime;
+    totals.set(day, t);
+}
+
+function previousDay(dayStart: number): number {
+    const d = new Date(dayStart);
+    d.setDate(d.getDate() - 1);
+    return d.getTime();
+}
@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import { BuddyEventBus } from './buddyEventBus';
 
 export interface HealthTip {
     id: string;
@@ -10,7 +11,12 @@ export interface HealthTip {
 
 export class HealthMonitor {
     private isMonitoring: boolean = false;
+    private isPaused: boolean = false;
+    private pausedAt: number = 0;
+    private pausedMs: number = 0;
     private healthTimers: Map<string, NodeJS.Timeout> = new Map();
+    private tipDueAt: Map<string, number> = new Map();
+    private remainingTipDelay: Map<string, number> = new Map();
     private lastTipTime: Map<string, number> = new Map();
     private sessionStartTime: number = 0;
     private totalSessionTime: number = 0;
@@ -87,6 +93,8 @@ export class HealthMonitor {
         }
 
         this.isMonitoring = true;
+        this.isPaused = false;
+        this.pausedMs = 0;
         this.sessionStartTime = Date.now();
         this.stretchCount = 0;
         this.waterReminderCount = 0;
@@ -103,8 +111,13 @@ export class HealthMonitor {
             return;
         }
 
+        if (this.isPaused) {
+            this.pausedMs += Date.now() - this.pausedAt;
+            this.isPaused = false;
+        }
+
         this.isMonitoring = false;
-        this.totalSessionTime += Date.now() - this.sessionStartTime;
+        this.totalSessionTime += Date.now() - this.sessionStartTime - this.pausedMs;
 
         // Clear all timers
         this.clearAllTimers();
@@ -113,33 +126,64 @@ export class HealthMonitor {
         this.showHealthSummary();
     }
 
-    private startHealthTipTimers(): void {
+    // Freezes every tip countdown; resumeMonitoring() picks up where they left off
+    public pauseMonitoring(): void {
+        if (!this.isMonitoring || this.isPaused) {
+            return;
+        }
+
+        const now = Date.now();
+        this.isPaused = true;
+        this.pausedAt = now;
+
+        this.tipDueAt.forEach((dueAt, tipId) => {
+            this.remainingTipDelay.set(tipId, Math.max(0, dueAt - now));
+        });
+        this.clearAllTimers();
+    }
+
+    public resumeMonitoring(): void {
+        if (!this.isMonitoring || !this.isPaused) {
+            return;
+        }
+
+        this.isPaused = false;
+        this.pausedMs += Date.now() - this.pausedAt;
+
         this.healthTips.forEach(tip => {
-            const timer = setTimeout(() => {
-                this.showHealthTip(tip);
-                // Restart timer for this tip
-                this.scheduleNextTip(tip);
-            }, tip.cooldown);
+            const remaining = this.remainingTipDelay.get(tip.id) ?? tip.cooldown;
+            this.scheduleTip(tip, remaining);
+        });
+        this.remainingTipDelay.clear();
+    }
 
-            this.healthTimers.set(tip.id, timer);
+    private startHealthTipTimers(): void {
+        this.healthTips.forEach(tip => {
+            this.scheduleTip(tip, tip.cooldown);
         });
     }
 
     private scheduleNextTip(tip: HealthTip): void {
-        if (!this.isMonitoring) {
+        if (!this.isMonitoring || this.isPaused) {
             return;
         }
 
+        this.scheduleTip(tip, tip.cooldown);
+    }
+
+    private scheduleTip(tip: HealthTip, delay: number): void {
         const timer = setTimeout(() => {
             this.showHealthTip(tip);
+            // Restart timer for this tip
             this.scheduleNextTip(tip);
-        }, tip.cooldown);
+        }, delay);
 
         this.healthTimers.set(tip.id, timer);
+        this.tipDueAt.set(tip.id, Date.now() + delay);
     }
 
     private showHealthTip(tip: HealthTip): void {
-        if (!this.isMonitoring) {
+        if (!this.isMonitoring || this.isPaused) {
             return;
         }
 
@@ -167,8 +211,18 @@ export class HealthMonitor {
                 break;
         }
 
-        // Show the health tip
-        vscode.window.showInformationMessage(tip.message);
+        // Show the health tip; confirming it counts as a completed break
+        vscode.window.showInformationMessage(tip.message, 'Done ✔').then(sel => {
+            if (sel && this.isMonitoring) {
+                BuddyEventBus.getInstance().emit('healthBreakCompleted', { tipId: tip.id, category: tip.category, at: Date.now() });
+            }
+        });
+        BuddyEventBus.getInstance().emit('healthTipShown', {
+            tipId: tip.id,
+            category: tip.category,
+            message: tip.message,
+            at: now
+        });
 
         // Log for debugging
         console.log(`Health tip shown: ${tip.message}`);
@@ -179,10 +233,11 @@ export class HealthMonitor {
             clearTimeout(timer);
         });
         this.healthTimers.clear();
+        this.tipDueAt.clear();
     }
 
     private showHealthSummary(): void {
-        const sessionDuration = Date.now() - this.sessionStartTime;
+        const sessionDuration = Date.now() - this.sessionStartTime - this.pausedMs;
         const minutes = Math.floor(sessionDuration / (1000 * 60));
 
         let summary = `🏥 Health Summary (${minutes} minutes):\n`;
@@ -212,7 +267,9 @@ export class HealthMonitor {
         postureReminderCount: number;
         totalSessionTime: number;
     } {
-        const currentSessionTime = this.isMonitoring ? Date.now() - this.sessionStartTime : 0;
+        const now = Date.now();
+        const currentPausedMs = this.pausedMs + (this.isPaused ? now - this.pausedAt : 0);
+        const currentSessionTime = this.isMonitoring ? now - this.sessionStartTime - currentPausedMs : 0;
         
         return {
             sessionDuration: currentSessionTime,
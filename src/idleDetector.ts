@@ -0,0 +1,98 @@
+import * as vscode from 'vscode';
+
+/**
+ * Watches editor, window and terminal activity and reports when the developer has been
+ * away longer than `codingBuddy.idleThresholdMinutes`, and again when they come back.
+ */
+export class IdleDetector implements vscode.Disposable {
+    private static readonly CHECK_INTERVAL_MS = 15 * 1000;
+
+    private lastActivity: number = Date.now();
+    private isIdle: boolean = false;
+    private checkTimer: NodeJS.Timeout | undefined;
+    private disposables: vscode.Disposable[] = [];
+
+    private onIdle: ((idleSince: number) => void) | undefined;
+    private onActive: ((idleMs: number) => void) | undefined;
+
+    constructor() {
+        this.disposables.push(
+            vscode.workspace.onDidChangeTextDocument((e) => {
+                // Output channels and other virtual documents change without user input
+                if (e.document.uri.scheme === 'file' || e.document.uri.scheme === 'untitled') {
+                    this.markActivity();
+                }
+            }),
+            vscode.window.onDidChangeTextEditorSelection(() => this.markActivity()),
+            vscode.window.onDidChangeActiveTextEditor(() => this.markActivity()),
+            vscode.window.onDidChangeWindowState((state) => {
+                if (state.focused) {
+                    this.markActivity();
+                }
+            }),
+            vscode.window.onDidOpenTerminal(() => this.markActivity()),
+            vscode.window.onDidChangeActiveTerminal(() => this.markActivity()),
+            vscode.window.onDidChangeTerminalState(() => this.markActivity())
+        );
+
+        this.checkTimer = setInterval(() => this.checkIdle(), IdleDetector.CHECK_INTERVAL_MS);
+    }
+
+    public setIdleCallback(callback: (idleSince: number) => void): void {
+        this.onIdle = callback;
+    }
+
+    public setActiveCallback(callback: (idleMs: number) => void): void {
+        this.onActive = callback;
+    }
+
+    public isUserIdle(): boolean {
+        return this.isIdle;
+    }
+
+    public getLastActivity(): number {
+        return this.lastActivity;
+    }
+
+    public markActivity(): void {
+        const now = Date.now();
+        const wasIdle = this.isIdle;
+        const idleMs = now - this.lastActivity;
+
+        this.lastActivity = now;
+        this.isIdle = false;
+
+        if (wasIdle) {
+            console.log(`👋 Activity detected after ${Math.round(idleMs / 1000)}s idle`);
+            this.onActive?.(idleMs);
+        }
+    }
+
+    private getIdleThresholdMs(): number {
+        const cfg = vscode.workspace.getConfiguration('codingBuddy');
+        const minutes = cfg.get<number>('idleThresholdMinutes', 5);
+        return minutes > 0 ? minutes * 60 * 1000 : 0;
+    }
+
+    private checkIdle(): void {
+        if (this.isIdle) return;
+
+        const threshold = this.getIdleThresholdMs();
+        if (!threshold) return; // idle detection disabled
+
+        if (Date.now() - this.lastActivity >= threshold) {
+            this.isIdle = true;
+            console.log(`💤 No activity for ${Math.round(threshold / 60000)} min, marking idle`);
+            this.onIdle?.(this.lastActivity);
+        }
+    }
+
+    public dispose(): void {
+        if (this.checkTimer) {
+            clearInterval(this.checkTimer);
+            this.checkTimer = undefined;
+        }
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+}
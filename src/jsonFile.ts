@@ -0,0 +1,50 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * One JSON document on disk, for data too large for global state (which VS Code loads in
+ * full at startup). Writes go to a temporary file that is renamed over the old one, and are
+ * chained so they land in the order they were made.
+ */
+export class JsonFile<T> {
+    private pending: Promise<void> = Promise.resolve();
+
+    constructor(public readonly filePath: string) {}
+
+    public exists(): boolean {
+        return fs.existsSync(this.filePath);
+    }
+
+    /**
+     * The stored value, or undefined when the file is missing. An unreadable file is moved
+     * aside rather than overwritten by the next write, so it can still be recovered by hand.
+     */
+    public read(): T | undefined {
+        if (!this.exists()) return undefined;
+        try {
+            return JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as T;
+        } catch (error) {
+            const aside = `${this.filePath}.corrupt-${Date.now()}`;
+            console.error(`❌ Failed to read ${this.filePath}, moving it to ${aside}:`, error);
+            try {
+                fs.renameSync(this.filePath, aside);
+            } catch (renameError) {
+                console.error(`❌ Failed to move ${this.filePath} aside:`, renameError);
+            }
+            return undefined;
+        }
+    }
+
+    public write(value: T): Promise<void> {
+        const data = JSON.stringify(value);
+        const write = this.pending.then(async () => {
+            const tmp = `${this.filePath}.tmp`;
+            await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+            await fs.promises.writeFile(tmp, data, 'utf8');
+            await fs.promises.rename(tmp, this.filePath);
+        });
+        // a failed write must not block the ones after it
+        this.pending = write.catch(() => undefined);
+        return write;
+    }
+}
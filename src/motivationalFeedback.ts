@@ -1,4 +1,5 @@
 import * as vscode from "vscode";
+import { getEmotionInfo } from "./emotionTaxonomy";
 
 export interface FeedbackContext {
   emotion: string;
@@ -52,13 +53,13 @@ export class MotivationalFeedback {
       lastEmotion,
     } = context;
 
-    // Breakthrough detection (frustration -> happiness/confidence)
+    // Breakthrough detection (a negative emotion turning positive)
     if (this.isBreakthrough(lastEmotion, emotion)) {
       return this.getBreakthroughFeedback(breakthroughCount);
     }
 
     // Focus and productivity feedback
-    if (emotion === "focused" || emotion === "concentrated") {
+    if (emotion === "focused") {
       return this.getFocusFeedback(focusTime, sessionDuration);
     }
 
@@ -68,7 +69,7 @@ export class MotivationalFeedback {
     }
 
     // General encouragement
-    if (emotion === "happy" || emotion === "confident") {
+    if (getEmotionInfo(emotion)?.valence === "positive") {
       return this.getEncouragementFeedback(emotion);
     }
 
@@ -77,12 +78,9 @@ export class MotivationalFeedback {
   }
 
   private isBreakthrough(lastEmotion: string, currentEmotion: string): boolean {
-    const negativeEmotions = ["frustrated", "confused", "sad", "angry"];
-    const positiveEmotions = ["happy", "confident", "excited", "surprised"];
-
     return (
-      negativeEmotions.includes(lastEmotion) &&
-      positiveEmotions.includes(currentEmotion)
+      getEmotionInfo(lastEmotion)?.valence === "negative" &&
+      getEmotionInfo(currentEmotion)?.valence === "positive"
     );
   }
 
@@ -145,12 +143,12 @@ export class MotivationalFeedback {
         "😄 Your happiness is contagious! Keep spreading that positive coding energy!",
         "😊 That joy in your face tells me you're loving what you're building!",
       ],
-      confident: [
-        "💪 That confidence looks great on you! You're owning this code!",
-        "🔥 You're radiating confidence! That's the energy of someone who knows their stuff!",
-        "💪 Look at that confident posture! You're not just coding, you're commanding the keyboard!",
+      content: [
+        "😌 You look right at home in this code! That calm confidence looks great on you!",
+        "💪 Steady and relaxed - that's the energy of someone who knows their stuff!",
+        "😌 Nothing rattles you today! You're not just coding, you're commanding the keyboard!",
       ],
-      excited: [
+      surprised: [
         "🚀 I can feel your excitement! Something amazing is happening in that code!",
         "⚡ Your excitement is electric! That's the energy that drives innovation!",
         "🎉 Love the enthusiasm! You're not just coding, you're creating magic!",
@@ -1,7 +1,13 @@
 import * as vscode from 'vscode';
-import axios from 'axios';
-import FormData from 'form-data';
 import * as fs from 'fs';
+import * as path from 'path';
+import { mapEmotionLabel } from './emotionTaxonomy';
+import { ApiKeyStore } from './apiKeyStore';
+import {
+    RoboflowRequestFormat, ROBOFLOW_REQUEST_FORMATS,
+    getRoboflowEndpoint, getRoboflowHttpClient, isHostedEndpoint, normalizeEndpoint, postRoboflowImage, bestPrediction
+} from './roboflowClient';
+import { describeHttpError } from './resilientHttpClient';
 
 export interface MultiModelEmotionResult {
     emotion: string;
@@ -16,52 +22,178 @@ interface ModelResult {
     emotion: string;
     confidence: number;
     modelId: string;
+    weight: number;
 }
 
-export class MultiModelEmotionDetector {
-    private models: Array<{
-        name: string;
-        id: string;
-        emotions: string[];
-        weight: number;
-    }> = [
-        {
-            name: 'Human Face Emotions (Current)',
-            id: 'emotions-detection-x0xuc/3',
-            emotions: ['happy', 'sad', 'angry', 'disgust', 'fear', 'surprise', 'neutral', 'content'],
-            weight: 1.0
-        },
-        {
-            name: 'Facial Emotion Recognition',
-            id: 'uni-o612z/facial-emotion-recognition',
-            emotions: ['angry', 'happy', 'sad'],
-            weight: 0.8
-        },
-        {
-            name: 'Emotion Detector',
-            id: 'emotions/emotion-detector-ev1to',
-            emotions: ['Happy', 'Neutral', 'Sad'],
-            weight: 0.7
-        },
-        {
-            name: 'Emotions Detection',
-            id: 'emotion-zryzf/emotions-detection-x0xuc',
-            emotions: ['angry', 'disgust', 'happy', 'neutral', 'sad', 'surprise'],
-            weight: 0.9
-        },
-        {
-            name: 'Emotion Detection YOLO',
-            id: 'computer-vision-projects-zhogq/emotion-detection-y0svj',
-            emotions: ['Angry', 'Fearful', 'Happy', 'Neutral', 'Sad'],
-            weight: 0.8
-        }
-    ];
+/** One Roboflow-compatible model in the ensemble, as given in settings or a roster file. */
+export interface EmotionModelConfig {
+    id: string; // model id/version, e.g. "emotions-detection-x0xuc/3"
+    name: string;
+    endpoint?: string; // base URL; defaults to codingBuddy.emotion.roboflow.endpoint
+    requestFormat?: RoboflowRequestFormat; // defaults to codingBuddy.emotion.roboflow.requestFormat
+    emotions?: string[]; // classes the model outputs, for display
+    labelMap?: { [rawLabel: string]: string }; // raw class → label, checked before the shared emotion label table
+    weight?: number; // vote weight, default 1
+    timeoutMs?: number; // default codingBuddy.emotion.roboflow.timeoutMs
+}
+
+export const DEFAULT_EMOTION_MODELS: EmotionModelConfig[] = [
+    {
+        name: 'Human Face Emotions (Current)',
+        id: 'emotions-detection-x0xuc/3',
+        emotions: ['happy', 'sad', 'angry', 'disgust', 'fear', 'surprise', 'neutral', 'content'],
+        weight: 1.0
+    },
+    {
+        name: 'Facial Emotion Recognition',
+        id: 'uni-o612z/facial-emotion-recognition',
+        emotions: ['angry', 'happy', 'sad'],
+        weight: 0.8
+    },
+    {
+        name: 'Emotion Detector',
+        id: 'emotions/emotion-detector-ev1to',
+        emotions: ['Happy', 'Neutral', 'Sad'],
+        weight: 0.7
+    },
+    {
+        name: 'Emotions Detection',
+        id: 'emotion-zryzf/emotions-detection-x0xuc',
+        emotions: ['angry', 'disgust', 'happy', 'neutral', 'sad', 'surprise'],
+        weight: 0.9
+    },
+    {
+        name: 'Emotion Detection YOLO',
+        id: 'computer-vision-projects-zhogq/emotion-detection-y0svj',
+        emotions: ['Angry', 'Fearful', 'Happy', 'Neutral', 'Sad'],
+        weight: 0.8
+    }
+];
+
+/**
+ * Checks a model entry from settings or a roster file. Returns a reason string when it is
+ * unusable, or undefined when it is valid.
+ */
+export function validateEmotionModel(def: any): string | undefined {
+    if (!def || typeof def !== 'object') return 'not an object';
+    if (typeof def.id !== 'string' || !def.id) return 'missing id';
+    if (def.name !== undefined && typeof def.name !== 'string') return `${def.id}: name must be a string`;
+    if (def.endpoint !== undefined && (typeof def.endpoint !== 'string' || !/^https?:\/\//.test(def.endpoint))) return `${def.id}: endpoint must be an http(s) URL`;
+    if (def.requestFormat !== undefined && !ROBOFLOW_REQUEST_FORMATS.includes(def.requestFormat)) {
+        return `${def.id}: requestFormat must be one of ${ROBOFLOW_REQUEST_FORMATS.join(', ')}`;
+    }
+    if (def.weight !== undefined && (typeof def.weight !== 'number' || def.weight <= 0)) return `${def.id}: weight must be a positive number`;
+    if (def.timeoutMs !== undefined && (typeof def.timeoutMs !== 'number' || def.timeoutMs <= 0)) return `${def.id}: timeoutMs must be a positive number`;
+    if (def.labelMap !== undefined && (typeof def.labelMap !== 'object' || Object.values(def.labelMap).some(v => typeof v !== 'string'))) {
+        return `${def.id}: labelMap must map labels to emotion names`;
+    }
+    return undefined;
+}
 
-    private apiKey: string = 'NoMXRSSJhGJKdfEGXlaI';
+export class MultiModelEmotionDetector implements vscode.Disposable {
     private isEnabled: boolean = true;
+    private roster: EmotionModelConfig[] | undefined; // parsed once, dropped when its sources change
+    private rosterWatcher: vscode.FileSystemWatcher | undefined;
+    private subscriptions: vscode.Disposable[] = [];
 
     constructor() {
-        console.log('🎯 MultiModelEmotionDetector initialized with', this.models.length, 'models');
+        this.subscriptions.push(
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('codingBuddy.emotion.multiModel.models') ||
+                    e.affectsConfiguration('codingBuddy.emotion.multiModel.modelsFile')) {
+                    this.invalidateRoster();
+                }
+            }),
+            // a relative modelsFile resolves against the first workspace folder
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.invalidateRoster())
+        );
+        console.log('🎯 MultiModelEmotionDetector initialized with', this.getRoster().length, 'models');
+    }
+
+    /**
+     * Every configured model: `codingBuddy.emotion.multiModel.modelsFile` if set, else
+     * `codingBuddy.emotion.multiModel.models`, else the built-in roster. Cached until the
+     * settings or the roster file change.
+     */
+    public getRoster(): EmotionModelConfig[] {
+        if (!this.roster) {
+            this.roster = this.loadRoster();
+        }
+        return this.roster;
+    }
+
+    private invalidateRoster(): void {
+        this.roster = undefined;
+        this.rosterWatcher?.dispose();
+        this.rosterWatcher = undefined;
+    }
+
+    private loadRoster(): EmotionModelConfig[] {
+        const cfg = vscode.workspace.getConfiguration('codingBuddy');
+        let defs: any[] = cfg.get<any[]>('emotion.multiModel.models', []);
+
+        const file = cfg.get<string>('emotion.multiModel.modelsFile', '');
+        if (file) {
+            const rosterPath = this.resolveRosterPath(file);
+            this.watchRosterFile(rosterPath);
+            try {
+                const parsed = JSON.parse(fs.readFileSync(rosterPath, 'utf8'));
+                defs = Array.isArray(parsed) ? parsed : parsed.models;
+                if (!Array.isArray(defs)) throw new Error('expected an array of models');
+            } catch (error) {
+                console.warn(`⚠️ Could not read emotion model roster ${file}:`, error);
+                defs = [];
+            }
+        }
+
+        if (defs.length === 0) return DEFAULT_EMOTION_MODELS;
+
+        const ids = new Set<string>();
+        const valid: EmotionModelConfig[] = [];
+        for (const def of defs) {
+            const problem = validateEmotionModel(def);
+            if (problem) {
+                console.warn(`⚠️ Ignoring emotion model: ${problem}`);
+            } else if (ids.has(def.id)) {
+                console.warn(`⚠️ Ignoring emotion model: duplicate id "${def.id}"`);
+            } else {
+                ids.add(def.id);
+                valid.push({ name: def.id, ...def });
+            }
+        }
+        return valid;
+    }
+
+    /** The roster minus the models switched off in "Manage Emotion Models". */
+    public getActiveModels(): EmotionModelConfig[] {
+        const disabled = vscode.workspace.getConfiguration('codingBuddy').get<string[]>('emotion.multiModel.disabledModels', []);
+        return this.getRoster().filter(m => !disabled.includes(m.id));
+    }
+
+    /** Edits to the roster file, or creating and deleting it, take effect on the next frame. */
+    private watchRosterFile(rosterPath: string): void {
+        this.rosterWatcher?.dispose();
+        this.rosterWatcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(vscode.Uri.file(path.dirname(rosterPath)), path.basename(rosterPath))
+        );
+        const reload = () => { this.roster = undefined; };
+        this.rosterWatcher.onDidChange(reload);
+        this.rosterWatcher.onDidCreate(reload);
+        this.rosterWatcher.onDidDelete(reload);
+    }
+
+    private resolveRosterPath(file: string): string {
+        if (path.isAbsolute(file)) return file;
+        const folder = vscode.workspace.workspaceFolders?.[0];
+        return folder ? path.join(folder.uri.fsPath, file) : path.resolve(file);
+    }
+
+    /**
+     * Gated on the model's own resolved endpoint, whatever the primary backend is: models on
+     * Roboflow's hosted API need the user's key, self-hosted ones are always queried.
+     */
+    private isModelUsable(model: EmotionModelConfig, apiKey: string): boolean {
+        return !!apiKey || !isHostedEndpoint(model.endpoint || getRoboflowEndpoint().endpoint);
     }
 
     public async detectEmotion(imageBuffer: Buffer): Promise<MultiModelEmotionResult | null> {
@@ -70,10 +202,25 @@ export class MultiModelEmotionDetector {
             return null;
         }
 
+        const apiKey = (await ApiKeyStore.getInstance().getKey('roboflow')) ?? '';
+        const defaults = getRoboflowEndpoint();
+        const usable = this.getActiveModels().filter(model => this.isModelUsable(model, apiKey));
+        if (usable.length === 0) {
+            console.log(apiKey ? '🎯 No emotion models enabled' : '🎯 No Roboflow API key; hosted emotion models skipped');
+            return null;
+        }
+
+        // Endpoints paused by their circuit breaker sit this frame out
+        const models = usable.filter(model => getRoboflowHttpClient(model.endpoint || defaults.endpoint).isAvailable());
+        if (models.length === 0) {
+            console.log('🎯 Every emotion model endpoint is paused after repeated failures');
+            return null;
+        }
+
         console.log('🎯 Starting multi-model emotion detection...');
         
         const results: ModelResult[] = [];
-        const promises = this.models.map(model => this.queryModel(model, imageBuffer));
+        const promises = models.map(model => this.queryModel(model, imageBuffer, apiKey));
         
         try {
             const modelResults = await Promise.allSettled(promises);
@@ -81,9 +228,9 @@ export class MultiModelEmotionDetector {
             modelResults.forEach((result, index) => {
                 if (result.status === 'fulfilled' && result.value) {
                     results.push(result.value);
-                    console.log(`✅ ${this.models[index].name}: ${result.value.emotion} (${Math.round(result.value.confidence * 100)}%)`);
+                    console.log(`✅ ${models[index].name}: ${result.value.emotion} (${Math.round(result.value.confidence * 100)}%)`);
                 } else {
-                    console.log(`❌ ${this.models[index].name}: Failed to get result`);
+                    console.log(`❌ ${models[index].name}: Failed to get result`);
                 }
             });
 
@@ -99,113 +246,68 @@ export class MultiModelEmotionDetector {
         }
     }
 
-    private async queryModel(model: any, imageBuffer: Buffer): Promise<ModelResult | null> {
+    private async queryModel(model: EmotionModelConfig, imageBuffer: Buffer, apiKey: string): Promise<ModelResult | null> {
         try {
-            const formData = new FormData();
-            formData.append('file', imageBuffer, {
-                filename: 'frame.jpg',
-                contentType: 'image/jpeg'
-            });
-
-            const response = await axios({
-                method: "POST",
-                url: `https://detect.roboflow.com/${model.id}?api_key=${this.apiKey}`,
-                data: formData,
-                headers: formData.getHeaders(),
-                timeout: 10000
-            });
-
-            if (response.data && response.data.predictions && response.data.predictions.length > 0) {
-                const bestPrediction = response.data.predictions.reduce((best: any, current: any) => {
-                    return current.confidence > best.confidence ? current : best;
-                });
+            const defaults = getRoboflowEndpoint();
+            const response = await postRoboflowImage({
+                endpoint: model.endpoint || defaults.endpoint,
+                modelId: model.id,
+                requestFormat: model.requestFormat || defaults.requestFormat,
+                timeoutMs: model.timeoutMs ?? defaults.timeoutMs
+            }, imageBuffer, apiKey);
 
+            const prediction = bestPrediction(response);
+            if (prediction) {
                 return {
                     modelName: model.name,
-                    emotion: bestPrediction.class,
-                    confidence: bestPrediction.confidence,
-                    modelId: model.id
+                    emotion: mapEmotionLabel(model.labelMap?.[prediction.class] ?? prediction.class, prediction.confidence),
+                    confidence: prediction.confidence,
+                    modelId: model.id,
+                    weight: model.weight ?? 1
                 };
             }
         } catch (error) {
-            console.error(`❌ Error querying ${model.name}:`, error);
+            // the shared client already logged the failure and updated the endpoint's health
+            console.warn(`⚠️ ${model.name} did not vote: ${describeHttpError(error)}`);
         }
         return null;
     }
 
     private combineResults(results: ModelResult[]): MultiModelEmotionResult {
-        // Normalize emotion names to our standard format
-        const normalizedResults = results.map(result => ({
-            ...result,
-            emotion: this.normalizeEmotion(result.emotion)
-        }));
-
-        // Count votes for each emotion
+        // Each model votes with its weight; modelVotes keeps the plain head count for display
         const emotionVotes: { [emotion: string]: number } = {};
-        const emotionConfidences: { [emotion: string]: number[] } = {};
+        const weightedVotes: { [emotion: string]: number } = {};
+        const weightedConfidence: { [emotion: string]: number } = {};
 
-        normalizedResults.forEach(result => {
-            if (!emotionVotes[result.emotion]) {
-                emotionVotes[result.emotion] = 0;
-                emotionConfidences[result.emotion] = [];
-            }
-            emotionVotes[result.emotion]++;
-            emotionConfidences[result.emotion].push(result.confidence);
+        results.forEach(result => {
+            emotionVotes[result.emotion] = (emotionVotes[result.emotion] || 0) + 1;
+            weightedVotes[result.emotion] = (weightedVotes[result.emotion] || 0) + result.weight;
+            weightedConfidence[result.emotion] = (weightedConfidence[result.emotion] || 0) + result.weight * result.confidence;
         });
 
-        // Find the emotion with the most votes
-        const maxVotes = Math.max(...Object.values(emotionVotes));
-        const winningEmotions = Object.keys(emotionVotes).filter(emotion => emotionVotes[emotion] === maxVotes);
-
-        let finalEmotion: string;
-        let finalConfidence: number;
-
-        if (winningEmotions.length === 1) {
-            // Clear winner
-            finalEmotion = winningEmotions[0];
-            finalConfidence = Math.max(...emotionConfidences[finalEmotion]);
-        } else {
-            // Tie - use highest confidence among tied emotions
-            let bestConfidence = 0;
-            finalEmotion = winningEmotions[0];
-            
-            winningEmotions.forEach(emotion => {
-                const maxConf = Math.max(...emotionConfidences[emotion]);
-                if (maxConf > bestConfidence) {
-                    bestConfidence = maxConf;
-                    finalEmotion = emotion;
-                }
-            });
-            finalConfidence = bestConfidence;
-        }
+        // Highest total weight wins; ties go to the higher weighted confidence
+        const finalEmotion = Object.keys(weightedVotes).reduce((best, emotion) => {
+            if (weightedVotes[emotion] !== weightedVotes[best]) {
+                return weightedVotes[emotion] > weightedVotes[best] ? emotion : best;
+            }
+            return weightedConfidence[emotion] > weightedConfidence[best] ? emotion : best;
+        });
+        const finalConfidence = weightedConfidence[finalEmotion] / weightedVotes[finalEmotion];
 
-        // Calculate model agreement percentage
-        const modelAgreement = (maxVotes / results.length) * 100;
+        // Share of the total vote weight behind the winner
+        const totalWeight = results.reduce((sum, r) => sum + r.weight, 0);
+        const modelAgreement = (weightedVotes[finalEmotion] / totalWeight) * 100;
 
         console.log(`🎯 Multi-model result: ${finalEmotion} (${Math.round(finalConfidence * 100)}% confidence, ${Math.round(modelAgreement)}% agreement)`);
-        console.log(`🎯 Model votes:`, emotionVotes);
+        console.log(`🎯 Model votes:`, emotionVotes, 'weighted:', weightedVotes);
 
         return {
             emotion: finalEmotion,
             confidence: finalConfidence,
             modelAgreement: modelAgreement,
             modelVotes: emotionVotes,
-            individualResults: normalizedResults
-        };
-    }
-
-    private normalizeEmotion(emotion: string): string {
-        const emotionMap: { [key: string]: string } = {
-            'Happy': 'happy',
-            'Sad': 'sad',
-            'Angry': 'angry',
-            'Fearful': 'fear',
-            'Neutral': 'neutral',
-            'Disgust': 'disgust',
-            'Surprise': 'surprise',
-            'Content': 'content'
+            individualResults: results
         };
-        return emotionMap[emotion] || emotion.toLowerCase();
     }
 
     public setEnabled(enabled: boolean): void {
@@ -218,13 +320,55 @@ export class MultiModelEmotionDetector {
     }
 
     public getModelCount(): number {
-        return this.models.length;
+        return this.getActiveModels().length;
     }
 
     public getModelInfo(): Array<{ name: string; emotions: string[] }> {
-        return this.models.map(model => ({
+        return this.getActiveModels().map(model => ({
             name: model.name,
-            emotions: model.emotions
+            emotions: model.emotions || Object.keys(model.labelMap || {})
+        }));
+    }
+
+    /** Multi-select of the roster; unticked models are saved to `emotion.multiModel.disabledModels`. */
+    public async showManageModelsQuickPick(): Promise<void> {
+        const roster = this.getRoster();
+        const active = new Set(this.getActiveModels().map(m => m.id));
+
+        const defaults = getRoboflowEndpoint();
+        const items = roster.map(m => ({
+            label: m.name,
+            description: `weight ${m.weight ?? 1} · ${Math.round((m.timeoutMs ?? defaults.timeoutMs) / 1000)}s timeout`
+                + (getRoboflowHttpClient(m.endpoint || defaults.endpoint).isAvailable() ? '' : ' · ⏸️ paused'),
+            detail: `${normalizeEndpoint(m.endpoint || defaults.endpoint)}/${m.id} (${m.requestFormat || defaults.requestFormat})`,
+            picked: active.has(m.id),
+            id: m.id
         }));
+
+        const picked = await vscode.window.showQuickPick(items, {
+            canPickMany: true,
+            placeHolder: 'Emotion models used for multi-model detection'
+        });
+        if (!picked) return;
+
+        const keep = new Set(picked.map(p => p.id));
+        const disabled = roster.filter(m => !keep.has(m.id)).map(m => m.id);
+        await vscode.workspace.getConfiguration('codingBuddy')
+            .update('emotion.multiModel.disabledModels', disabled, vscode.ConfigurationTarget.Global);
+
+        const sel = await vscode.window.showInformationMessage(
+            `🎯 ${keep.size} of ${roster.length} emotion models enabled.`,
+            'Edit Roster'
+        );
+        if (sel) {
+            vscode.commands.executeCommand('workbench.action.openSettings', 'codingBuddy.emotion.multiModel');
+        }
+    }
+
+    public dispose(): void {
+        this.rosterWatcher?.dispose();
+        this.rosterWatcher = undefined;
+        this.subscriptions.forEach(d => d.dispose());
+        this.subscriptions = [];
     }
 }
@@ -0,0 +1,197 @@
+import * as vscode from 'vscode';
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { BuddyEventBus } from './buddyEventBus';
+
+/**
+ * - `healthy`: the last call succeeded
+ * - `degraded`: the last call failed after its retries
+ * - `open`: too many calls failed in a row; calls are refused until the cooldown ends
+ */
+export type ServiceHealthState = 'healthy' | 'degraded' | 'open';
+
+export interface ResilienceSettings {
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    failureThreshold: number; // consecutive failed calls that open the circuit
+    cooldownMs: number;
+    maxRequestsPerMinute: number;
+}
+
+export interface ResilientRequestOptions {
+    timeoutMs: number;
+    /** Checks the response body; a problem fails the call without retrying. */
+    validate?: (data: unknown) => string | undefined;
+}
+
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+
+/** `codingBuddy.network.*`, read on every call so changes apply to the next request. */
+export function getResilienceSettings(): ResilienceSettings {
+    const cfg = vscode.workspace.getConfiguration('codingBuddy');
+    return {
+        maxRetries: Math.max(0, cfg.get<number>('network.maxRetries', 2)),
+        baseDelayMs: BASE_DELAY_MS,
+        maxDelayMs: MAX_DELAY_MS,
+        failureThreshold: Math.max(1, cfg.get<number>('network.circuitBreaker.failureThreshold', 5)),
+        cooldownMs: Math.max(1, cfg.get<number>('network.circuitBreaker.cooldownSeconds', 60)) * 1000,
+        maxRequestsPerMinute: Math.max(1, cfg.get<number>('network.maxRequestsPerMinute', 120))
+    };
+}
+
+/** Timeouts, dropped connections, 408, 429 and 5xx are worth another try; other errors are not. */
+export function isRetryableError(error: any): boolean {
+    if (!axios.isAxiosError(error)) return false;
+    if (!error.response) return true;
+    const status = error.response.status;
+    return status === 408 || status === 429 || status >= 500;
+}
+
+/** One line for logs and the status bar, without the request URL (it may carry an API key). */
+export function describeHttpError(error: any): string {
+    if (axios.isAxiosError(error)) {
+        if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') return 'request timed out';
+        if (error.response) return `HTTP ${error.response.status}${error.response.statusText ? ' ' + error.response.statusText : ''}`;
+        if (error.code) return `network error (${error.code})`;
+    }
+    return error instanceof Error ? error.message : String(error);
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * HTTP calls to one remote service with timeouts, exponential backoff, a per-minute rate
+ * limit and a circuit breaker. State changes are published as `serviceHealthChanged` events.
+ */
+export class ResilientHttpClient {
+    private static clients: Map<string, ResilientHttpClient> = new Map();
+
+    private state: ServiceHealthState = 'healthy';
+    private consecutiveFailures: number = 0;
+    private openUntil: number = 0;
+    private probeInFlight: boolean = false; // one trial call after the cooldown
+    private recentRequests: number[] = []; // start times within the last minute
+
+    private constructor(
+        public readonly service: string,
+        public readonly label: string
+    ) {}
+
+    /** The shared client for `service`, e.g. `roboflow:https://detect.roboflow.com` or `gemini`. */
+    public static forService(service: string, label: string): ResilientHttpClient {
+        let client = ResilientHttpClient.clients.get(service);
+        if (!client) {
+            client = new ResilientHttpClient(service, label);
+            ResilientHttpClient.clients.set(service, client);
+        }
+        return client;
+    }
+
+    public getState(): ServiceHealthState {
+        return this.state;
+    }
+
+    /** False while the circuit is open and the cooldown has not ended. */
+    public isAvailable(): boolean {
+        return this.state !== 'open' || Date.now() >= this.openUntil;
+    }
+
+    /** Sends the request, retrying transient failures; throws once the call has failed for good. */
+    public async request<T = any>(config: AxiosRequestConfig, options: ResilientRequestOptions): Promise<AxiosResponse<T>> {
+        const settings = getResilienceSettings();
+        const probing = this.admit(settings);
+
+        let attempt = 0;
+        try {
+            for (;;) {
+                try {
+                    const response = await axios.request<T>({ ...config, timeout: options.timeoutMs });
+                    const problem = options.validate?.(response.data);
+                    if (problem) {
+                        throw new Error(`Unexpected response from ${this.label}: ${problem}`);
+                    }
+                    this.recordSuccess();
+                    return response;
+                } catch (error) {
+                    if (attempt >= settings.maxRetries || !isRetryableError(error)) throw error;
+                    const delay = this.backoffDelay(attempt, settings, error);
+                    console.warn(`⚠️ ${this.label}: ${describeHttpError(error)}, retrying in ${delay}ms (${attempt + 1}/${settings.maxRetries})`);
+                    await sleep(delay);
+                    attempt++;
+                }
+            }
+        } catch (error) {
+            this.recordFailure(settings, describeHttpError(error));
+            throw error;
+        } finally {
+            if (probing) this.probeInFlight = false;
+        }
+    }
+
+    /**
+     * Throws when the circuit is open or the rate limit is used up, before anything is sent.
+     * Returns true when this call is the trial request after a cooldown.
+     */
+    private admit(settings: ResilienceSettings): boolean {
+        const now = Date.now();
+        if (this.state === 'open' && (now < this.openUntil || this.probeInFlight)) {
+            const seconds = Math.max(1, Math.ceil((this.openUntil - now) / 1000));
+            throw new Error(`${this.label} is paused after ${this.consecutiveFailures} failed requests; retrying in ${seconds}s`);
+        }
+
+        this.recentRequests = this.recentRequests.filter(t => now - t < 60000);
+        if (this.recentRequests.length >= settings.maxRequestsPerMinute) {
+            const seconds = Math.max(1, Math.ceil((this.recentRequests[0] + 60000 - now) / 1000));
+            throw new Error(`${this.label} rate limit of ${settings.maxRequestsPerMinute} requests per minute reached; try again in ${seconds}s`);
+        }
+        this.recentRequests.push(now);
+
+        const probing = this.state === 'open';
+        if (probing) this.probeInFlight = true;
+        return probing;
+    }
+
+    private backoffDelay(attempt: number, settings: ResilienceSettings, error: any): number {
+        // Honor the server's Retry-After on 429/503, otherwise double the delay with jitter
+        const retryAfter = Number(error?.response?.headers?.['retry-after']);
+        if (Number.isFinite(retryAfter) && retryAfter > 0) {
+            return Math.min(settings.maxDelayMs, retryAfter * 1000);
+        }
+        const exponential = Math.min(settings.maxDelayMs, settings.baseDelayMs * Math.pow(2, attempt));
+        return Math.round(exponential / 2 + Math.random() * exponential / 2);
+    }
+
+    private recordSuccess(): void {
+        this.consecutiveFailures = 0;
+        this.openUntil = 0;
+        this.setState('healthy', `${this.label} is reachable again`);
+    }
+
+    private recordFailure(settings: ResilienceSettings, reason: string): void {
+        this.consecutiveFailures++;
+        if (this.state === 'open' || this.consecutiveFailures >= settings.failureThreshold) {
+            this.openUntil = Date.now() + settings.cooldownMs;
+            const retryAt = new Date(this.openUntil).toLocaleTimeString();
+            console.error(`❌ ${this.label} failed ${this.consecutiveFailures} times in a row (${reason}); pausing until ${retryAt}`);
+            this.setState('open', `${this.label} paused after ${this.consecutiveFailures} failed requests (${reason}). Retrying at ${retryAt}.`, true);
+        } else {
+            console.error(`❌ ${this.label} request failed: ${reason}`);
+            this.setState('degraded', `${this.label} request failed: ${reason}`, true);
+        }
+    }
+
+    private setState(state: ServiceHealthState, message: string, always = false): void {
+        if (this.state === state && !always) return;
+        this.state = state;
+        BuddyEventBus.getInstance().emit('serviceHealthChanged', {
+            service: this.service,
+            label: this.label,
+            state,
+            message,
+            retryAt: state === 'open' ? this.openUntil : undefined
+        });
+    }
+}
@@ -0,0 +1,149 @@
+import * as vscode from 'vscode';
+import FormData from 'form-data';
+import { ResilientHttpClient } from './resilientHttpClient';
+
+/**
+ * How a frame is sent:
+ * - `multipart`: file upload to `{endpoint}/{modelId}` (hosted API and Inference's legacy routes)
+ * - `base64`: base64 body to `{endpoint}/{modelId}`, form-urlencoded
+ * - `json`: Roboflow Inference's `{endpoint}/infer/object_detection` JSON request
+ */
+export type RoboflowRequestFormat = 'multipart' | 'base64' | 'json';
+
+export const ROBOFLOW_REQUEST_FORMATS: RoboflowRequestFormat[] = ['multipart', 'base64', 'json'];
+
+export const DEFAULT_ROBOFLOW_ENDPOINT = 'https://detect.roboflow.com';
+export const DEFAULT_ROBOFLOW_MODEL_ID = 'emotions-detection-x0xuc/3';
+export const DEFAULT_ROBOFLOW_TIMEOUT_MS = 10000;
+
+export interface RoboflowEndpoint {
+    endpoint: string; // base URL without trailing slash
+    modelId: string;
+    requestFormat: RoboflowRequestFormat;
+    timeoutMs: number;
+}
+
+export interface RoboflowPrediction {
+    class: string;
+    confidence: number;
+    // object detection models only; classification models return just class + confidence
+    x?: number;
+    y?: number;
+    width?: number;
+    height?: number;
+}
+
+export interface RoboflowResponse {
+    predictions: RoboflowPrediction[];
+}
+
+/** The configured endpoint for the `roboflow` backend (`codingBuddy.emotion.roboflow.*`). */
+export function getRoboflowEndpoint(): RoboflowEndpoint {
+    const cfg = vscode.workspace.getConfiguration('codingBuddy');
+    const format = cfg.get<string>('emotion.roboflow.requestFormat', 'multipart');
+    return {
+        endpoint: normalizeEndpoint(cfg.get<string>('emotion.roboflow.endpoint', '') || DEFAULT_ROBOFLOW_ENDPOINT),
+        modelId: cfg.get<string>('emotion.roboflow.modelId', '') || DEFAULT_ROBOFLOW_MODEL_ID,
+        requestFormat: ROBOFLOW_REQUEST_FORMATS.includes(format as RoboflowRequestFormat) ? format as RoboflowRequestFormat : 'multipart',
+        timeoutMs: Math.max(1000, cfg.get<number>('emotion.roboflow.timeoutMs', DEFAULT_ROBOFLOW_TIMEOUT_MS))
+    };
+}
+
+export function normalizeEndpoint(url: string): string {
+    return url.trim().replace(/\/+$/, '');
+}
+
+/** Roboflow's hosted API needs the user's key; a self-hosted server may run without one. */
+export function isHostedEndpoint(endpoint: string): boolean {
+    return normalizeEndpoint(endpoint) === DEFAULT_ROBOFLOW_ENDPOINT;
+}
+
+/** The shared network client for a Roboflow-compatible server; one circuit per endpoint. */
+export function getRoboflowHttpClient(endpoint: string): ResilientHttpClient {
+    const base = normalizeEndpoint(endpoint);
+    let host = base;
+    try {
+        host = new URL(base).host;
+    } catch {
+        // not a URL; the request itself will fail with a clearer error
+    }
+    return ResilientHttpClient.forService(`roboflow:${base}`, `Roboflow (${host})`);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+/** Checks a response body against the prediction schema; returns a problem description or undefined. */
+export function validateRoboflowResponse(data: unknown): string | undefined {
+    if (!data || typeof data !== 'object') return 'response is not a JSON object';
+    const predictions = (data as { predictions?: unknown }).predictions;
+    if (!Array.isArray(predictions)) return 'predictions must be an array';
+
+    for (let i = 0; i < predictions.length; i++) {
+        const p = predictions[i];
+        if (!p || typeof p !== 'object') return `predictions[${i}] must be an object`;
+        if (typeof p.class !== 'string' || p.class === '') return `predictions[${i}].class must be a non-empty string`;
+        if (!isFiniteNumber(p.confidence) || p.confidence < 0 || p.confidence > 1) {
+            return `predictions[${i}].confidence must be a number between 0 and 1`;
+        }
+        for (const key of ['x', 'y', 'width', 'height']) {
+            if (p[key] !== undefined && !isFiniteNumber(p[key])) return `predictions[${i}].${key} must be a number`;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Sends one JPEG frame through the endpoint's resilient client and returns the validated
+ * response; throws on HTTP or schema errors and while the endpoint's circuit is open.
+ */
+export async function postRoboflowImage(target: RoboflowEndpoint, imageBuffer: Buffer, apiKey: string): Promise<RoboflowResponse> {
+    const endpoint = normalizeEndpoint(target.endpoint);
+    const keyParam = apiKey ? `?api_key=${encodeURIComponent(apiKey)}` : '';
+    const options = { timeoutMs: target.timeoutMs, validate: validateRoboflowResponse };
+    const client = getRoboflowHttpClient(endpoint);
+
+    switch (target.requestFormat) {
+        case 'base64':
+            return (await client.request<RoboflowResponse>({
+                method: 'POST',
+                url: `${endpoint}/${target.modelId}${keyParam}`,
+                data: imageBuffer.toString('base64'),
+                headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
+            }, options)).data;
+        case 'json':
+            return (await client.request<RoboflowResponse>({
+                method: 'POST',
+                url: `${endpoint}/infer/object_detection`,
+                data: {
+                    model_id: target.modelId,
+                    api_key: apiKey || undefined,
+                    image: { type: 'base64', value: imageBuffer.toString('base64') }
+                },
+                headers: { 'Content-Type': 'application/json' }
+            }, options)).data;
+        default: {
+            // a FormData stream can only be read once; a buffer can be resent on retry
+            const formData = new FormData();
+            formData.append('file', imageBuffer, {
+                filename: 'frame.jpg',
+                contentType: 'image/jpeg'
+            });
+            return (await client.request<RoboflowResponse>({
+                method: 'POST',
+                url: `${endpoint}/${target.modelId}${keyParam}`,
+                data: formData.getBuffer(),
+                headers: formData.getHeaders()
+            }, options)).data;
+        }
+    }
+}
+
+/** The highest-confidence prediction, or undefined when nothing was detected. */
+export function bestPrediction(response: RoboflowResponse): RoboflowPrediction | undefined {
+    return response.predictions.reduce<RoboflowPrediction | undefined>(
+        (best, current) => !best || current.confidence > best.confidence ? current : best,
+        undefined
+    );
+}
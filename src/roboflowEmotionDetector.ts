@@ -1,39 +1,50 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
-import * as path from 'path';
-import axios from 'axios';
-import FormData from 'form-data';
+import { EmotionBackend, EmotionBackendResult } from './emotionBackend';
+import { mapEmotionLabel, emotionsForLabels } from './emotionTaxonomy';
+import { ApiKeyStore } from './apiKeyStore';
+import {
+    RoboflowEndpoint, RoboflowResponse,
+    getRoboflowEndpoint, getRoboflowHttpClient, isHostedEndpoint, postRoboflowImage, bestPrediction
+} from './roboflowClient';
 
-export interface RoboflowEmotionResult {
-    emotion: string;
-    confidence: number;
-    boundingBox?: {
-        x: number;
-        y: number;
-        width: number;
-        height: number;
-    };
-}
+export type RoboflowEmotionResult = EmotionBackendResult;
+
+// Classes of the emotions-detection model
+const ROBOFLOW_CLASSES = ['happy', 'sad', 'angry', 'disgust', 'fear', 'surprise', 'neutral', 'content'];
+
+export class RoboflowEmotionDetector implements EmotionBackend {
+    public readonly id = 'roboflow';
+    public readonly displayName = 'Roboflow (cloud)';
+    public readonly onDevice = false;
 
-export class RoboflowEmotionDetector {
     private apiKey: string | null = null;
-    private modelId: string = 'emotions-detection-x0xuc/3';
+    private target: RoboflowEndpoint = getRoboflowEndpoint();
     private isInitialized: boolean = false;
 
-    constructor() {
-        // Use the working API key
-        this.apiKey = 'NoMXRSSJhGJKdfEGXlaI';
-        console.log('🔧 Using Roboflow with API key');
-    }
-
     public async initialize(): Promise<boolean> {
         console.log('🔧 RoboflowDetector.initialize() called');
         
         try {
-            console.log('🔧 Initializing Roboflow client...');
+            // Endpoint, model and request format come from codingBuddy.emotion.roboflow.*
+            this.target = getRoboflowEndpoint();
+
+            // The key lives in SecretStorage; the hosted API is off without one, a self-hosted server may not need it
+            const keys = ApiKeyStore.getInstance();
+            this.apiKey = (isHostedEndpoint(this.target.endpoint)
+                ? await keys.requireKey('roboflow')
+                : await keys.getKey('roboflow')) ?? null;
+            if (!this.apiKey && isHostedEndpoint(this.target.endpoint)) {
+                console.warn('⚠️ No Roboflow API key configured; cloud emotion detection is disabled');
+                return false;
+            }
+
+            console.log(`🔧 Initializing Roboflow client for ${this.target.endpoint} (${this.target.modelId}, ${this.target.requestFormat})...`);
             this.isInitialized = true;
             console.log('✅ Roboflow client initialized successfully');
-            vscode.window.showInformationMessage('✅ Roboflow emotion detection initialized!');
+            vscode.window.showInformationMessage(isHostedEndpoint(this.target.endpoint)
+                ? '✅ Roboflow emotion detection initialized!'
+                : `✅ Roboflow emotion detection initialized with ${this.target.endpoint}`);
             return true;
         } catch (error) {
             console.error('❌ Failed to initialize Roboflow client:', error);
@@ -43,56 +54,15 @@ export class RoboflowEmotionDetector {
     }
 
     public async detectEmotion(imagePath: string): Promise<RoboflowEmotionResult | null> {
-        if (!this.isInitialized) {
-            throw new Error('Roboflow detector not initialized');
-        }
+        console.log('📁 Image path:', imagePath);
 
-        try {
-            console.log('🔍 Starting Roboflow emotion detection...');
-            console.log('📁 Image path:', imagePath);
-            console.log('🔑 API Key:', this.apiKey ? 'Present' : 'Missing');
-            console.log('🤖 Model ID:', this.modelId);
-            
-            // Check if image file exists
-            if (!fs.existsSync(imagePath)) {
-                console.error('❌ Image file does not exist:', imagePath);
-                return null;
-            }
-            
-            console.log('✅ Image file exists, making Roboflow API call...');
-            
-            console.log('📡 Making Roboflow API call with:');
-            console.log('  - Model ID:', this.modelId);
-            console.log('  - API Key:', this.apiKey ? 'Present' : 'None');
-            console.log('  - Image size:', fs.statSync(imagePath).size, 'bytes');
-            
-            console.log('🚀 Sending image to Roboflow AI...');
-            
-            // Use the correct detect endpoint with file upload
-            const formData = new FormData();
-            formData.append('file', fs.createReadStream(imagePath));
-            
-            const response = await axios({
-                method: "POST",
-                url: `https://detect.roboflow.com/${this.modelId}?api_key=${this.apiKey || ''}`,
-                data: formData,
-                headers: formData.getHeaders()
-            });
-            
-            console.log('✅ Roboflow AI response received!');
-            console.log('📊 AI Response:', JSON.stringify(response.data, null, 2));
-            
-            return this.processRoboflowResult(response.data);
-
-        } catch (error: any) {
-            console.error('❌ Error detecting emotion with Roboflow:', error);
-            console.error('❌ Error details:', error instanceof Error ? error.message : String(error));
-            if (error.response) {
-                console.error('❌ Response status:', error.response.status);
-                console.error('❌ Response data:', error.response.data);
-            }
+        // Check if image file exists
+        if (!fs.existsSync(imagePath)) {
+            console.error('❌ Image file does not exist:', imagePath);
             return null;
         }
+
+        return this.detectEmotionFromBuffer(fs.readFileSync(imagePath));
     }
 
     public async detectEmotionFromBuffer(imageBuffer: Buffer): Promise<RoboflowEmotionResult | null> {
@@ -100,165 +70,79 @@ export class RoboflowEmotionDetector {
             throw new Error('Roboflow detector not initialized');
         }
 
-        try {
-            console.log('🔍 Starting Roboflow emotion detection from buffer...');
-            console.log('🔑 API Key:', this.apiKey ? 'Present' : 'Missing');
-            console.log('🤖 Model ID:', this.modelId);
-            console.log('📦 Buffer size:', imageBuffer.length, 'bytes');
-            
-            console.log('🚀 Sending image buffer to Roboflow AI...');
-            
-            // Use the correct detect endpoint with buffer upload
-            const formData = new FormData();
-            formData.append('file', imageBuffer, {
-                filename: 'frame.jpg',
-                contentType: 'image/jpeg'
-            });
-            
-            const response = await axios({
-                method: "POST",
-                url: `https://detect.roboflow.com/${this.modelId}?api_key=${this.apiKey || ''}`,
-                data: formData,
-                headers: formData.getHeaders()
-            });
-            
-            console.log('✅ Roboflow AI response received!');
-            console.log('📊 AI Response:', JSON.stringify(response.data, null, 2));
-            
-            return this.processRoboflowResult(response.data);
+        console.log('🔍 Starting Roboflow emotion detection from buffer...');
+        console.log('🔑 API Key:', this.apiKey ? 'Present' : 'Missing');
+        console.log('🌐 Endpoint:', this.target.endpoint, `(${this.target.requestFormat})`);
+        console.log('🤖 Model ID:', this.target.modelId);
+        console.log('📦 Buffer size:', imageBuffer.length, 'bytes');
 
-        } catch (error: any) {
-            console.error('❌ Error detecting emotion with Roboflow from buffer:', error);
-            console.error('❌ Error details:', error instanceof Error ? error.message : String(error));
-            if (error.response) {
-                console.error('❌ Response status:', error.response.status);
-                console.error('❌ Response data:', error.response.data);
-            }
-            return null;
-        }
+        // Timeouts, retries and the circuit breaker live in the client; a failure that
+        // survives them is thrown so the capture loop can report it
+        console.log('🚀 Sending image buffer to Roboflow AI...');
+        const response = await postRoboflowImage(this.target, imageBuffer, this.apiKey || '');
+
+        console.log('✅ Roboflow AI response received!');
+        console.log('📊 AI Response:', JSON.stringify(response, null, 2));
+
+        return this.processRoboflowResult(response);
     }
 
     public async detectEmotionFromDataURL(dataURL: string): Promise<RoboflowEmotionResult | null> {
-        if (!this.isInitialized) {
-            throw new Error('Roboflow detector not initialized');
-        }
+        console.log('🔗 Data URL length:', dataURL.length, 'characters');
 
-        try {
-            console.log('🔍 Starting Roboflow emotion detection from data URL...');
-            console.log('🔑 API Key:', this.apiKey ? 'Present' : 'Missing');
-            console.log('🤖 Model ID:', this.modelId);
-            console.log('🔗 Data URL length:', dataURL.length, 'characters');
-            
-            // Convert data URL to buffer
-            const base64Data = dataURL.replace(/^data:image\/[a-z]+;base64,/, '');
-            const imageBuffer = Buffer.from(base64Data, 'base64');
-            
-            console.log('🚀 Sending image from data URL to Roboflow AI...');
-            
-            // Use the correct detect endpoint with buffer upload
-            const formData = new FormData();
-            formData.append('file', imageBuffer, {
-                filename: 'frame.jpg',
-                contentType: 'image/jpeg'
-            });
-            
-            const response = await axios({
-                method: "POST",
-                url: `https://detect.roboflow.com/${this.modelId}?api_key=${this.apiKey || ''}`,
-                data: formData,
-                headers: formData.getHeaders()
-            });
-            
-            console.log('✅ Roboflow AI response received!');
-            console.log('📊 AI Response:', JSON.stringify(response.data, null, 2));
-            
-            return this.processRoboflowResult(response.data);
+        // Convert data URL to buffer
+        const base64Data = dataURL.replace(/^data:image\/[a-z]+;base64,/, '');
+        return this.detectEmotionFromBuffer(Buffer.from(base64Data, 'base64'));
+    }
 
-        } catch (error: any) {
-            console.error('❌ Error detecting emotion with Roboflow from data URL:', error);
-            console.error('❌ Error details:', error instanceof Error ? error.message : String(error));
-            if (error.response) {
-                console.error('❌ Response status:', error.response.status);
-                console.error('❌ Response data:', error.response.data);
-            }
+    private processRoboflowResult(roboflowResult: RoboflowResponse): RoboflowEmotionResult | null {
+        // The response already passed validateRoboflowResponse: predictions is an array of
+        // { class, confidence } with optional x, y, width, height for detection models
+        const prediction = bestPrediction(roboflowResult);
+        if (!prediction) {
+            console.log('❌ AI found no objects/faces in the image');
             return null;
         }
-    }
-
-    private processRoboflowResult(roboflowResult: any): RoboflowEmotionResult | null {
-        try {
-            // Roboflow returns predictions in this format:
-            // {
-            //   "predictions": [
-            //     {
-            //       "x": 100,
-            //       "y": 100,
-            //       "width": 50,
-            //       "height": 50,
-            //       "confidence": 0.95,
-            //       "class": "happy"
-            //     }
-            //   ]
-            // }
 
-            if (!roboflowResult.predictions || roboflowResult.predictions.length === 0) {
-                console.log('❌ AI found no objects/faces in the image');
-                console.log('📊 Full AI response:', JSON.stringify(roboflowResult, null, 2));
-                return null;
-            }
-
-            // Get the prediction with highest confidence
-            const bestPrediction = roboflowResult.predictions.reduce((best: any, current: any) => {
-                return current.confidence > best.confidence ? current : best;
-            });
+        console.log('🎯 AI Detection Results:');
+        console.log('  - Detected class:', prediction.class);
+        console.log('  - Confidence:', Math.round(prediction.confidence * 100) + '%');
+        console.log('  - Bounding box:', prediction.x, prediction.y, prediction.width, prediction.height);
+        
+        // Map the model's class to a buddy emotion via the shared label table
+        const mappedEmotion = mapEmotionLabel(prediction.class, prediction.confidence);
+        console.log('  - Mapped emotion:', mappedEmotion);
+
+        const hasBox = prediction.x !== undefined && prediction.y !== undefined
+            && prediction.width !== undefined && prediction.height !== undefined;
+        return {
+            emotion: mappedEmotion,
+            confidence: prediction.confidence,
+            rawClass: prediction.class,
+            // Roboflow reports the box center; backends report the top-left corner
+            boundingBox: hasBox ? {
+                x: prediction.x! - prediction.width! / 2,
+                y: prediction.y! - prediction.height! / 2,
+                width: prediction.width!,
+                height: prediction.height!
+            } : undefined
+        };
+    }
 
-            // Map Roboflow emotions to our emotion categories
-            const emotionMap: { [key: string]: string } = {
-                'happy': 'happy',
-                'sad': 'sad', // Will be handled specially based on confidence
-                'angry': 'frustrated',
-                'disgust': 'disgusted',
-                'fear': 'confused',
-                'surprise': 'surprised',
-                'neutral': 'focused',
-                'content': 'content'
-            };
+    public detectFromBuffer(imageBuffer: Buffer): Promise<RoboflowEmotionResult | null> {
+        return this.detectEmotionFromBuffer(imageBuffer);
+    }
 
-            console.log('🎯 AI Detection Results:');
-            console.log('  - Detected class:', bestPrediction.class);
-            console.log('  - Confidence:', Math.round(bestPrediction.confidence * 100) + '%');
-            console.log('  - Bounding box:', bestPrediction.x, bestPrediction.y, bestPrediction.width, bestPrediction.height);
-            
-            let mappedEmotion = emotionMap[bestPrediction.class] || 'No AI detection';
-            
-            // Special handling for 'sad' based on confidence
-            if (bestPrediction.class === 'sad') {
-                if (bestPrediction.confidence < 0.6) {
-                    mappedEmotion = 'focused';
-                    console.log('  - Sad detected with low confidence (<60%), mapping to focused');
-                } else {
-                    mappedEmotion = 'frustrated';
-                    console.log('  - Sad detected with high confidence (>=60%), mapping to frustrated');
-                }
-            }
-            
-            console.log('  - Mapped emotion:', mappedEmotion);
+    public supportedEmotions(): string[] {
+        return this.getSupportedEmotions();
+    }
 
-            return {
-                emotion: mappedEmotion,
-                confidence: bestPrediction.confidence,
-                boundingBox: {
-                    x: bestPrediction.x,
-                    y: bestPrediction.y,
-                    width: bestPrediction.width,
-                    height: bestPrediction.height
-                }
-            };
+    public isAvailable(): boolean {
+        return getRoboflowHttpClient(this.target.endpoint).isAvailable();
+    }
 
-        } catch (error: any) {
-            console.error('Error processing Roboflow result:', error);
-            return null;
-        }
+    public dispose(): void {
+        this.isInitialized = false;
     }
 
     public isReady(): boolean {
@@ -270,6 +154,6 @@ export class RoboflowEmotionDetector {
     }
 
     public getSupportedEmotions(): string[] {
-        return ['happy', 'focused', 'frustrated', 'confused', 'surprised'];
+        return emotionsForLabels(ROBOFLOW_CLASSES);
     }
 }
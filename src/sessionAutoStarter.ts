@@ -0,0 +1,156 @@
+import * as vscode from 'vscode';
+import { CodingBuddyBot } from './codingBuddyBot';
+import { IdleDetector } from './idleDetector';
+import { BuddyEventBus } from './buddyEventBus';
+
+interface AutoStartRules {
+    enabled: boolean;
+    workspaceFolders: string[]; // globs, matched against folder paths and names
+    languages: string[]; // language ids
+    onFirstEdit: boolean;
+    stopAfterIdleMinutes: number; // 0 = never
+}
+
+/**
+ * Starts and stops sessions on the user's behalf based on `codingBuddy.autoStart.*` rules.
+ *
+ * Workspace globs decide whether this window is eligible at all; languages and
+ * "on first edit" are the triggers. With no trigger configured an eligible window
+ * starts a session right away. A manual stop is respected for the rest of the window.
+ */
+export class SessionAutoStarter implements vscode.Disposable {
+    private static readonly IDLE_CHECK_INTERVAL_MS = 30 * 1000;
+
+    private disposables: vscode.Disposable[] = [];
+    private idleCheckTimer: NodeJS.Timeout | undefined;
+    private suppressed: boolean = false;
+    private starting: boolean = false;
+    private autoStopping: boolean = false;
+
+    constructor(
+        private readonly bot: CodingBuddyBot,
+        private readonly idleDetector: IdleDetector
+    ) {
+        this.disposables.push(
+            vscode.window.onDidChangeActiveTextEditor((editor) => {
+                if (editor) this.handleDocument(editor.document, false);
+            }),
+            vscode.workspace.onDidChangeTextDocument((e) => {
+                if (e.contentChanges.length > 0) this.handleDocument(e.document, true);
+            }),
+            BuddyEventBus.getInstance().on('sessionStopped', () => this.handleSessionStopped())
+        );
+
+        this.idleCheckTimer = setInterval(() => this.checkIdleStop(), SessionAutoStarter.IDLE_CHECK_INTERVAL_MS);
+    }
+
+    /** Call once after activation so window-level rules can fire immediately. */
+    public evaluateOnActivation(): void {
+        const rules = this.getRules();
+        if (!this.canAutoStart(rules)) return;
+
+        if (rules.languages.length === 0 && !rules.onFirstEdit) {
+            this.start('workspace rule matched');
+            return;
+        }
+
+        const active = vscode.window.activeTextEditor;
+        if (active) this.handleDocument(active.document, false);
+    }
+
+    // Manual stops suppress further auto-starts; our own idle stops do not
+    private handleSessionStopped(): void {
+        if (!this.autoStopping) {
+            this.suppressed = true;
+            console.log('🛑 Session stopped manually, auto-start suppressed for this window');
+        }
+        this.autoStopping = false;
+    }
+
+    private handleDocument(document: vscode.TextDocument, isEdit: boolean): void {
+        if (document.uri.scheme !== 'file' && document.uri.scheme !== 'untitled') return;
+
+        const rules = this.getRules();
+        if (!this.canAutoStart(rules)) return;
+
+        if (rules.languages.includes(document.languageId)) {
+            this.start(`${document.languageId} file opened`);
+        } else if (isEdit && rules.onFirstEdit) {
+            this.start('first edit');
+        }
+    }
+
+    private canAutoStart(rules: AutoStartRules): boolean {
+        if (!rules.enabled || this.suppressed || this.starting || this.bot.isSessionActive()) return false;
+        return rules.workspaceFolders.length === 0 || this.workspaceMatches(rules.workspaceFolders);
+    }
+
+    private workspaceMatches(globs: string[]): boolean {
+        const folders = vscode.workspace.workspaceFolders || [];
+        const patterns = globs.map(globToRegExp);
+        return folders.some(folder => {
+            const folderPath = folder.uri.fsPath.replace(/\\/g, '/');
+            return patterns.some(re => re.test(folderPath) || re.test(folder.name));
+        });
+    }
+
+    private start(reason: string): void {
+        console.log(`🤖 Auto-starting session (${reason})`);
+        this.starting = true;
+        Promise.resolve(vscode.commands.executeCommand('coding-buddy-bot.startSession'))
+            .finally(() => { this.starting = false; });
+    }
+
+    private checkIdleStop(): void {
+        const { enabled, stopAfterIdleMinutes } = this.getRules();
+        if (!enabled || stopAfterIdleMinutes <= 0 || !this.bot.isSessionActive()) return;
+        if (!this.idleDetector.isUserIdle()) return;
+
+        const idleMs = Date.now() - this.idleDetector.getLastActivity();
+        if (idleMs >= stopAfterIdleMinutes * 60 * 1000) {
+            console.log(`🤖 Auto-stopping session after ${Math.round(idleMs / 60000)} min idle`);
+            this.autoStopping = true;
+            vscode.commands.executeCommand('coding-buddy-bot.stopSession');
+        }
+    }
+
+    private getRules(): AutoStartRules {
+        const cfg = vscode.workspace.getConfiguration('codingBuddy');
+        return {
+            enabled: cfg.get<boolean>('autoStart.enabled', false),
+            workspaceFolders: cfg.get<string[]>('autoStart.workspaceFolders', []),
+            languages: cfg.get<string[]>('autoStart.languages', []),
+            onFirstEdit: cfg.get<boolean>('autoStart.onFirstEdit', false),
+            stopAfterIdleMinutes: cfg.get<number>('autoStop.idleMinutes', 0)
+        };
+    }
+
+    public dispose(): void {
+        if (this.idleCheckTimer) {
+            clearInterval(this.idleCheckTimer);
+            this.idleCheckTimer = undefined;
+        }
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+}
+
+// Minimal glob support: `**` spans path segments, `*` and `?` stay within one
+function globToRegExp(glob: string): RegExp {
+    let pattern = '';
+    const normalized = glob.replace(/\\/g, '/');
+    for (let i = 0; i < normalized.length; i++) {
+        const ch = normalized[i];
+        if (ch === '*' && normalized[i + 1] === '*') {
+            pattern += '.*';
+            i++;
+        } else if (ch === '*') {
+            pattern += '[^/]*';
+        } else if (ch === '?') {
+            pattern += '[^/]';
+        } else {
+            pattern += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${pattern}$`, process.platform === 'win32' ? 'i' : '');
+}
@@ -0,0 +1,392 @@
+import * as vscode from "vscode";
+import { SessionStore, SessionRecord } from "./sessionStore";
+import { SessionPersistence } from "./sessionPersistence";
+import { BuddyEventBus } from "./buddyEventBus";
+import { rollupSessions, RollupPeriod, SessionRollup } from "./sessionRollups";
+
+interface SessionHistoryFilter {
+  from: string; // yyyy-mm-dd, inclusive
+  to: string; // yyyy-mm-dd, inclusive
+  workspace: string; // "" = all workspaces
+  period: RollupPeriod;
+}
+
+/**
+ * Webview listing past sessions with date/workspace filters and daily/weekly rollups.
+ * An open panel re-renders once each finished session has been saved.
+ */
+export class SessionHistoryPanel implements vscode.Disposable {
+  private panel: vscode.WebviewPanel | undefined;
+  private subscriptions: vscode.Disposable[] = [];
+  private filter: SessionHistoryFilter = {
+    from: "",
+    to: "",
+    workspace: "",
+    period: "day",
+  };
+
+  constructor(
+    private readonly sessionStore: SessionStore,
+    private readonly sessionPersistence: SessionPersistence
+  ) {
+    this.subscriptions.push(
+      BuddyEventBus.getInstance().on("sessionStopped", () => {
+        this.sessionPersistence.flush().then(() => this.render());
+      })
+    );
+  }
+
+  public show(): void {
+    if (this.panel) {
+      this.panel.reveal();
+      this.render();
+      return;
+    }
+
+    this.panel = vscode.window.createWebviewPanel(
+      "codingBuddySessionHistory",
+      "Session History",
+      vscode.ViewColumn.One,
+      {
+        enableScripts: true,
+      }
+    );
+
+    this.panel.onDidDispose(() => {
+      this.panel = undefined;
+    });
+
+    this.panel.webview.onDidReceiveMessage((message: any) => {
+      switch (message.command) {
+        case "applyFilter":
+          this.filter = {
+            from: message.from || "",
+            to: message.to || "",
+            workspace: message.workspace || "",
+            period: message.period === "week" ? "week" : "day",
+          };
+          this.render();
+          break;
+        case "resetFilter":
+          this.filter = { from: "", to: "", workspace: "", period: "day" };
+          this.render();
+          break;
+      }
+    });
+
+    this.render();
+  }
+
+  private render(): void {
+    if (!this.panel) {
+      return;
+    }
+
+    const sessions = this.sessionStore.getSessions({
+      from: this.filter.from ? this.parseDay(this.filter.from) : undefined,
+      // "to" is inclusive, so query up to the start of the following day
+      to: this.filter.to
+        ? this.parseDay(this.filter.to) + 24 * 60 * 60 * 1000
+        : undefined,
+      workspace: this.filter.workspace || undefined,
+    });
+
+    this.panel.webview.html = this.getWebviewContent(
+      sessions,
+      rollupSessions(sessions, this.filter.period)
+    );
+  }
+
+  private parseDay(day: string): number {
+    return new Date(`${day}T00:00:00`).getTime();
+  }
+
+  private getWebviewContent(
+    sessions: SessionRecord[],
+    rollups: SessionRollup[]
+  ): string {
+    const workspaceOptions = this.sessionStore
+      .getWorkspaces()
+      .map(
+        (ws) =>
+          `<option value="${this.escapeHtml(ws)}" ${
+            ws === this.filter.workspace ? "selected" : ""
+          }>${this.escapeHtml(ws)}</option>`
+      )
+      .join("");
+
+    const totals = rollups.reduce(
+      (acc, r) => ({
+        totalMs: acc.totalMs + r.totalMs,
+        focusMs: acc.focusMs + r.focusMs,
+        breakthroughs: acc.breakthroughs + r.breakthroughs,
+        errorsFixed: acc.errorsFixed + r.errorsFixed,
+        badges: acc.badges + r.badges,
+      }),
+      { totalMs: 0, focusMs: 0, breakthroughs: 0, errorsFixed: 0, badges: 0 }
+    );
+
+    const rollupRows = rollups
+      .map(
+        (r) => `
+                <tr>
+                    <td>${this.escapeHtml(r.label)}</td>
+                    <td>${r.sessionCount}</td>
+                    <td>${this.formatDuration(r.totalMs)}</td>
+                    <td>${this.formatDuration(r.focusMs)}</td>
+                    <td>${r.breakthroughs}</td>
+                    <td>${r.errorsFixed}</td>
+                    <td>${r.badges}</td>
+                </tr>`
+      )
+      .join("");
+
+    const sessionRows = sessions
+      .map(
+        (s) => `
+                <tr>
+                    <td>${new Date(s.startTime).toLocaleString()}</td>
+                    <td>${this.escapeHtml(s.workspace)}</td>
+                    <td>${this.formatDuration(s.durationMs)}</td>
+                    <td>${this.formatDuration(s.focusTime)}</td>
+                    <td>${s.breakthroughCount}</td>
+                    <td>${s.errorsFixed}</td>
+                    <td>${s.badges.length}</td>
+                </tr>`
+      )
+      .join("");
+
+    const emptyRow = `<tr><td colspan="7" class="empty">No sessions match these filters yet.</td></tr>`;
+
+    return `
+            <!DOCTYPE html>
+            <html lang="en">
+            <head>
+                <meta charset="UTF-8">
+                <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'unsafe-inline';" />
+                <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                <title>Session History</title>
+                <style>
+                    body {
+                        font-family: 'Rajdhani', 'Segoe UI', monospace;
+                        padding: 20px;
+                        background: linear-gradient(135deg, #0a0a0f 0%, #1a1a2e 50%, #16213e 100%);
+                        color: #00ffff;
+                        min-height: 100vh;
+                    }
+
+                    h1, h2 {
+                        text-transform: uppercase;
+                        letter-spacing: 2px;
+                    }
+
+                    h2 {
+                        color: #ff00ff;
+                        margin-top: 30px;
+                    }
+
+                    .filters {
+                        display: flex;
+                        flex-wrap: wrap;
+                        gap: 12px;
+                        align-items: flex-end;
+                        padding: 15px;
+                        border-radius: 15px;
+                        border: 1px solid rgba(0, 255, 255, 0.3);
+                        background: rgba(0, 255, 255, 0.05);
+                    }
+
+                    .filters label {
+                        display: flex;
+                        flex-direction: column;
+                        font-size: 12px;
+                        text-transform: uppercase;
+                        gap: 4px;
+                    }
+
+                    input, select, button {
+                        background: rgba(0, 0, 0, 0.4);
+                        color: #00ffff;
+                        border: 1px solid rgba(0, 255, 255, 0.4);
+                        border-radius: 8px;
+                        padding: 6px 10px;
+                        font-family: inherit;
+                    }
+
+                    button {
+                        cursor: pointer;
+                        text-transform: uppercase;
+                        font-weight: 700;
+                    }
+
+                    button:hover {
+                        background: rgba(0, 255, 255, 0.2);
+                    }
+
+                    .totals {
+                        display: grid;
+                        grid-template-columns: repeat(auto-fit, minmax(140px, 1fr));
+                        gap: 12px;
+                        margin-top: 20px;
+                    }
+
+                    .total-card {
+                        padding: 15px;
+                        border-radius: 12px;
+                        text-align: center;
+                        border: 1px solid rgba(255, 0, 255, 0.3);
+                        background: rgba(255, 0, 255, 0.08);
+                    }
+
+                    .total-value {
+                        font-size: 24px;
+                        font-weight: 900;
+                    }
+
+                    .total-label {
+                        font-size: 12px;
+                        opacity: 0.8;
+                        text-transform: uppercase;
+                    }
+
+                    table {
+                        width: 100%;
+                        border-collapse: collapse;
+                        margin-top: 10px;
+                    }
+
+                    th, td {
+                        padding: 8px;
+                        text-align: left;
+                        border-bottom: 1px solid rgba(0, 255, 255, 0.15);
+                    }
+
+                    th {
+                        font-size: 12px;
+                        text-transform: uppercase;
+                        opacity: 0.8;
+                    }
+
+                    .empty {
+                        text-align: center;
+                        opacity: 0.6;
+                        font-style: italic;
+                    }
+                </style>
+            </head>
+            <body>
+                <h1>📈 Session History</h1>
+
+                <div class="filters">
+                    <label>From
+                        <input type="date" id="from" value="${this.escapeHtml(this.filter.from)}">
+                    </label>
+                    <label>To
+                        <input type="date" id="to" value="${this.escapeHtml(this.filter.to)}">
+                    </label>
+                    <label>Workspace
+                        <select id="workspace">
+                            <option value="">All workspaces</option>
+                            ${workspaceOptions}
+                        </select>
+                    </label>
+                    <label>Rollup
+                        <select id="period">
+                            <option value="day" ${this.filter.period === "day" ? "selected" : ""}>Daily</option>
+                            <option value="week" ${this.filter.period === "week" ? "selected" : ""}>Weekly</option>
+                        </select>
+                    </label>
+                    <button onclick="applyFilter()">Apply</button>
+                    <button onclick="resetFilter()">Reset</button>
+                </div>
+
+                <div class="totals">
+                    <div class="total-card">
+                        <div class="total-value">${sessions.length}</div>
+                        <div class="total-label">Sessions</div>
+                    </div>
+                    <div class="total-card">
+                        <div class="total-value">${this.formatDuration(totals.totalMs)}</div>
+                        <div class="total-label">Coding Time</div>
+                    </div>
+                    <div class="total-card">
+                        <div class="total-value">${this.formatDuration(totals.focusMs)}</div>
+                        <div class="total-label">Focus Time</div>
+                    </div>
+                    <div class="total-card">
+                        <div class="total-value">${totals.breakthroughs}</div>
+                        <div class="total-label">Breakthroughs</div>
+                    </div>
+                    <div class="total-card">
+                        <div class="total-value">${totals.errorsFixed}</div>
+                        <div class="total-label">Errors Fixed</div>
+                    </div>
+                    <div class="total-card">
+                        <div class="total-value">${totals.badges}</div>
+                        <div class="total-label">Badges</div>
+                    </div>
+                </div>
+
+                <h2>${this.filter.period === "day" ? "Daily" : "Weekly"} Rollups</h2>
+                <table>
+                    <tr>
+                        <th>Period</th><th>Sessions</th><th>Coding</th><th>Focus</th>
+                        <th>Breakthroughs</th><th>Errors Fixed</th><th>Badges</th>
+                    </tr>
+                    ${rollupRows || emptyRow}
+                </table>
+
+                <h2>Sessions</h2>
+                <table>
+                    <tr>
+                        <th>Started</th><th>Workspace</th><th>Duration</th><th>Focus</th>
+                        <th>Breakthroughs</th><th>Errors Fixed</th><th>Badges</th>
+                    </tr>
+                    ${sessionRows || emptyRow}
+                </table>
+
+                <script>
+                    const vscodeApi = acquireVsCodeApi();
+
+                    function applyFilter() {
+                        vscodeApi.postMessage({
+                            command: 'applyFilter',
+                            from: document.getElementById('from').value,
+                            to: document.getElementById('to').value,
+                            workspace: document.getElementById('workspace').value,
+                            period: document.getElementById('period').value
+                        });
+                    }
+
+                    function resetFilter() {
+                        vscodeApi.postMessage({ command: 'resetFilter' });
+                    }
+                </script>
+            </body>
+            </html>
+        `;
+  }
+
+  private formatDuration(ms: number): string {
+    const minutes = Math.floor(ms / (1000 * 60));
+    const hours = Math.floor(minutes / 60);
+    return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+  }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&#39;");
+  }
+
+  public dispose(): void {
+    this.subscriptions.forEach((d) => d.dispose());
+    this.subscriptions = [];
+    if (this.panel) {
+      this.panel.dispose();
+    }
+  }
+}
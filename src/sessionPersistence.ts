@@ -0,0 +1,28 @@
+import * as vscode from 'vscode';
+import { BuddyEventBus } from './buddyEventBus';
+import { SessionStore } from './sessionStore';
+
+/**
+ * Writes every finished session to the store as soon as the bus reports it stopped.
+ * Saves are chained so they land in order, and flush() lets deactivate wait for them.
+ */
+export class SessionPersistence implements vscode.Disposable {
+    private subscription: vscode.Disposable;
+    private pending: Promise<void> = Promise.resolve();
+
+    constructor(private readonly store: SessionStore) {
+        this.subscription = BuddyEventBus.getInstance().on('sessionStopped', ({ record }) => {
+            this.pending = this.pending
+                .then(() => this.store.saveSession(record))
+                .catch(error => console.error('❌ Failed to save session history:', error));
+        });
+    }
+
+    public flush(): Promise<void> {
+        return this.pending;
+    }
+
+    public dispose(): void {
+        this.subscription.dispose();
+    }
+}
@@ -0,0 +1,188 @@
+import { SessionRecord } from './sessionStore';
+
+export type ReportFormat = 'csv' | 'jsonl' | 'markdown';
+
+export const REPORT_FILE_EXTENSIONS: { [format in ReportFormat]: string } = {
+    csv: 'csv',
+    jsonl: 'jsonl',
+    markdown: 'md'
+};
+
+export function buildReport(sessions: SessionRecord[], format: ReportFormat): string {
+    switch (format) {
+        case 'csv':
+            return toCsv(sessions);
+        case 'jsonl':
+            return toJsonLines(sessions);
+        case 'markdown':
+            return toMarkdown(sessions);
+    }
+}
+
+const CSV_COLUMNS = [
+    'record_type', 'session_id', 'workspace', 'timestamp', 'end_time',
+    'duration_min', 'paused_min', 'focus_min', 'breakthroughs', 'errors_fixed', 'emotion_changes',
+    'stretch_reminders', 'water_reminders', 'posture_reminders',
+    'badge_label', 'emotion', 'confidence', 'sampled'
+];
+
+/**
+ * Every emotion reading is kept, but history saved by some older versions holds only part
+ * of a long session's timeline. Rows and totals built from such a timeline say so.
+ */
+function isTimelineSampled(s: SessionRecord): boolean {
+    return s.emotionTimeline.length < s.emotionChangeCount;
+}
+
+/**
+ * One flat table so it drops straight into a spreadsheet: session rows carry the
+ * totals, badge and emotion rows reference their session via session_id.
+ */
+export function toCsv(sessions: SessionRecord[]): string {
+    const rows: string[][] = [CSV_COLUMNS];
+    const row = (values: { [column: string]: string | number }) =>
+        CSV_COLUMNS.map(c => values[c] === undefined ? '' : String(values[c]));
+
+    for (const s of sessions) {
+        rows.push(row({
+            record_type: 'session',
+            session_id: s.id,
+            workspace: s.workspace,
+            timestamp: new Date(s.startTime).toISOString(),
+            end_time: new Date(s.endTime).toISOString(),
+            duration_min: toMinutes(s.durationMs),
+            paused_min: toMinutes(s.pausedMs),
+            focus_min: toMinutes(s.focusTime),
+            breakthroughs: s.breakthroughCount,
+            errors_fixed: s.errorsFixed,
+            emotion_changes: s.emotionChangeCount,
+            stretch_reminders: s.healthStats.stretchCount,
+            water_reminders: s.healthStats.waterReminderCount,
+            posture_reminders: s.healthStats.postureReminderCount
+        }));
+        for (const b of s.badges) {
+            rows.push(row({
+                record_type: 'badge',
+                session_id: s.id,
+                workspace: s.workspace,
+                timestamp: new Date(b.at).toISOString(),
+                badge_label: b.label
+            }));
+        }
+        const sampled = isTimelineSampled(s) ? 'yes' : 'no';
+        for (const e of s.emotionTimeline) {
+            rows.push(row({
+                record_type: 'emotion',
+                session_id: s.id,
+                workspace: s.workspace,
+                timestamp: new Date(e.at).toISOString(),
+                emotion: e.emotion,
+                confidence: e.confidence.toFixed(3),
+                sampled
+            }));
+        }
+    }
+
+    return rows.map(r => r.map(escapeCsv).join(',')).join('\n') + '\n';
+}
+
+/** One JSON object per line, tagged with `type` so streams can be filtered with jq. */
+export function toJsonLines(sessions: SessionRecord[]): string {
+    const lines: string[] = [];
+
+    for (const s of sessions) {
+        const { emotionTimeline, badges, ...summary } = s;
+        lines.push(JSON.stringify({ type: 'session', ...summary }));
+        for (const b of badges) {
+            lines.push(JSON.stringify({ type: 'badge', sessionId: s.id, label: b.label, at: b.at }));
+        }
+        const sampled = isTimelineSampled(s);
+        for (const e of emotionTimeline) {
+            lines.push(JSON.stringify({ type: 'emotion', sessionId: s.id, ...e, sampled }));
+        }
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+export function toMarkdown(sessions: SessionRecord[]): string {
+    const totalMs = sessions.reduce((sum, s) => sum + s.durationMs, 0);
+    const focusMs = sessions.reduce((sum, s) => sum + s.focusTime, 0);
+    const breakthroughs = sessions.reduce((sum, s) => sum + s.breakthroughCount, 0);
+    const errorsFixed = sessions.reduce((sum, s) => sum + s.errorsFixed, 0);
+    const badges = sessions.reduce((sum, s) => sum + s.badges.length, 0);
+
+    const out: string[] = [];
+    out.push('# 🎯 Coding Buddy Session Report');
+    out.push('');
+    out.push(`_Generated ${new Date().toLocaleString()}_`);
+    out.push('');
+    out.push('## Overview');
+    out.push('');
+    out.push('| Sessions | Coding time | Focus time | Breakthroughs | Errors fixed | Badges |');
+    out.push('| --- | --- | --- | --- | --- | --- |');
+    out.push(`| ${sessions.length} | ${formatDuration(totalMs)} | ${formatDuration(focusMs)} | ${breakthroughs} | ${errorsFixed} | ${badges} |`);
+
+    for (const s of sessions) {
+        out.push('');
+        out.push(`## ${new Date(s.startTime).toLocaleString()} — ${escapeMarkdown(s.workspace)}`);
+        out.push('');
+        out.push(`- **Duration:** ${formatDuration(s.durationMs)}`);
+        if (s.pausedMs > 0) {
+            out.push(`- **Paused:** ${formatDuration(s.pausedMs)} across ${s.pauseSpans.length} break(s)`);
+        }
+        out.push(`- **Focus time:** ${formatDuration(s.focusTime)}`);
+        out.push(`- **Breakthroughs:** ${s.breakthroughCount}`);
+        out.push(`- **Errors fixed:** ${s.errorsFixed}`);
+        out.push(`- **Emotions detected:** ${s.emotionChangeCount}`);
+        out.push(`- **Health reminders:** ${s.healthStats.stretchCount} stretch, ${s.healthStats.waterReminderCount} water, ${s.healthStats.postureReminderCount} posture`);
+
+        const emotionCounts = new Map<string, number>();
+        for (const e of s.emotionTimeline) {
+            emotionCounts.set(e.emotion, (emotionCounts.get(e.emotion) || 0) + 1);
+        }
+        if (emotionCounts.size > 0) {
+            const breakdown = [...emotionCounts.entries()]
+                .sort((a, b) => b[1] - a[1])
+                .map(([emotion, count]) => `${emotion} ×${count}`)
+                .join(', ');
+            const sampled = isTimelineSampled(s)
+                ? ` _(sampled: ${s.emotionTimeline.length} of ${s.emotionChangeCount} readings)_`
+                : '';
+            out.push(`- **Emotion mix:** ${breakdown}${sampled}`);
+        }
+
+        if (s.badges.length > 0) {
+            out.push('');
+            out.push('**Badges**');
+            out.push('');
+            for (const b of s.badges) {
+                out.push(`- ${escapeMarkdown(b.label)} (${new Date(b.at).toLocaleTimeString()})`);
+            }
+        }
+    }
+
+    return out.join('\n') + '\n';
+}
+
+function escapeCsv(value: string): string {
+    // Spreadsheets run text starting with these as a formula; workspace and badge names are user text
+    if (/^[=+\-@\t\r]/.test(value) && !/^-?\d+(\.\d+)?$/.test(value)) {
+        value = `'${value}`;
+    }
+    return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function escapeMarkdown(text: string): string {
+    return text.replace(/([\\`*_[\]|<>])/g, '\\$1');
+}
+
+function toMinutes(ms: number): string {
+    return (ms / (1000 * 60)).toFixed(1);
+}
+
+function formatDuration(ms: number): string {
+    const minutes = Math.floor(ms / (1000 * 60));
+    const hours = Math.floor(minutes / 60);
+    return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+}
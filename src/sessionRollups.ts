@@ -0,0 +1,66 @@
+import { SessionRecord } from './sessionStore';
+
+export type RollupPeriod = 'day' | 'week';
+
+export interface SessionRollup {
+    periodStart: number; // epoch ms, local midnight (Monday for weeks)
+    label: string;
+    sessionCount: number;
+    totalMs: number;
+    focusMs: number;
+    breakthroughs: number;
+    errorsFixed: number;
+    badges: number;
+}
+
+export function startOfDay(ts: number): number {
+    const d = new Date(ts);
+    d.setHours(0, 0, 0, 0);
+    return d.getTime();
+}
+
+// Weeks start on Monday
+export function startOfWeek(ts: number): number {
+    const d = new Date(startOfDay(ts));
+    const daysSinceMonday = (d.getDay() + 6) % 7;
+    d.setDate(d.getDate() - daysSinceMonday);
+    return d.getTime();
+}
+
+/** Groups sessions into day or week buckets by start time, newest bucket first. */
+export function rollupSessions(sessions: SessionRecord[], period: RollupPeriod): SessionRollup[] {
+    const bucketStart = period === 'day' ? startOfDay : startOfWeek;
+    const buckets = new Map<number, SessionRollup>();
+
+    for (const s of sessions) {
+        const key = bucketStart(s.startTime);
+        let rollup = buckets.get(key);
+        if (!rollup) {
+            rollup = {
+                periodStart: key,
+                label: formatPeriodLabel(key, period),
+                sessionCount: 0,
+                totalMs: 0,
+                focusMs: 0,
+                breakthroughs: 0,
+                errorsFixed: 0,
+                badges: 0
+            };
+            buckets.set(key, rollup);
+        }
+
+        rollup.sessionCount++;
+        rollup.totalMs += s.durationMs;
+        rollup.focusMs += s.focusTime;
+        rollup.breakthroughs += s.breakthroughCount;
+        rollup.errorsFixed += s.errorsFixed;
+        rollup.badges += s.badges.length;
+    }
+
+    return [...buckets.values()].sort((a, b) => b.periodStart - a.periodStart);
+}
+
+function formatPeriodLabel(periodStart: number, period: RollupPeriod): string {
+    const date = new Date(periodStart).toLocaleDateString();
+    return period === 'day' ? date : `Week of ${date}`;
+}
@@ -0,0 +1,132 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { JsonFile } from './jsonFile';
+
+export interface EmotionEvent {
+    emotion: string;
+    confidence: number;
+    at: number; // epoch ms
+}
+
+export interface SessionHealthStats {
+    stretchCount: number;
+    waterReminderCount: number;
+    postureReminderCount: number;
+}
+
+export type PauseReason = 'manual' | 'idle';
+
+export interface PauseSpan {
+    start: number; // epoch ms
+    end: number; // epoch ms
+    reason: PauseReason;
+}
+
+export interface SessionRecord {
+    id: string;
+    startTime: number; // epoch ms
+    endTime: number; // epoch ms
+    durationMs: number; // active time only, paused spans excluded
+    pausedMs: number;
+    pauseSpans: PauseSpan[];
+    workspace: string;
+    focusTime: number; // ms
+    breakthroughCount: number;
+    errorsFixed: number;
+    emotionChangeCount: number;
+    emotionTimeline: EmotionEvent[];
+    badges: { label: string; at: number }[];
+    healthStats: SessionHealthStats;
+}
+
+export interface SessionQuery {
+    from?: number; // sessions that started at or after this epoch ms
+    to?: number; // sessions that started before this epoch ms
+    workspace?: string;
+    limit?: number;
+}
+
+/**
+ * Durable history of finished coding sessions, kept in a JSON file under the extension's
+ * global storage so it survives VS Code restarts and is shared across workspaces. Every
+ * session is kept in full; the file is read once at startup and rewritten on each save.
+ */
+export class SessionStore {
+    private static readonly FILE_NAME = 'session-history.json';
+    private static readonly LEGACY_STORAGE_KEY = 'codingBuddy.sessionHistory'; // before history moved to a file
+
+    private readonly file: JsonFile<SessionRecord[]>;
+    private sessions: SessionRecord[];
+
+    constructor(private readonly state: vscode.Memento, storageUri: vscode.Uri) {
+        this.file = new JsonFile(path.join(storageUri.fsPath, SessionStore.FILE_NAME));
+        const stored = this.file.exists() ? this.file.read() : this.migrateFromGlobalState();
+        this.sessions = (stored ?? []).map(withDefaults).sort((a, b) => b.startTime - a.startTime);
+    }
+
+    public static createSessionId(startTime: number): string {
+        return `${startTime.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    }
+
+    public async saveSession(record: SessionRecord): Promise<void> {
+        this.sessions = this.sessions.filter(s => s.id !== record.id);
+        this.sessions.unshift(record);
+        this.sessions.sort((a, b) => b.startTime - a.startTime);
+
+        await this.file.write(this.sessions);
+        console.log(`💾 Session ${record.id} saved (${this.sessions.length} sessions in history)`);
+    }
+
+    /** Past sessions matching the query, newest first. */
+    public getSessions(query: SessionQuery = {}): SessionRecord[] {
+        let sessions = this.sessions.filter(s =>
+            (query.from === undefined || s.startTime >= query.from) &&
+            (query.to === undefined || s.startTime < query.to) &&
+            (query.workspace === undefined || s.workspace === query.workspace)
+        );
+        if (query.limit !== undefined) {
+            sessions = sessions.slice(0, query.limit);
+        }
+        return sessions;
+    }
+
+    public getSession(id: string): SessionRecord | undefined {
+        return this.sessions.find(s => s.id === id);
+    }
+
+    public getWorkspaces(): string[] {
+        return [...new Set(this.sessions.map(s => s.workspace))].sort();
+    }
+
+    public async clear(): Promise<void> {
+        this.sessions = [];
+        await this.file.write([]);
+    }
+
+    /**
+     * Copies history saved by older versions out of global state. The old key is only
+     * removed once the file has been written.
+     */
+    private migrateFromGlobalState(): SessionRecord[] | undefined {
+        const legacy = this.state.get<SessionRecord[]>(SessionStore.LEGACY_STORAGE_KEY);
+        if (legacy === undefined) return undefined;
+
+        this.file.write(legacy)
+            .then(() => this.state.update(SessionStore.LEGACY_STORAGE_KEY, undefined))
+            .then(
+                () => console.log(`💾 Moved ${legacy.length} session(s) from global state to ${this.file.filePath}`),
+                error => console.error('❌ Failed to move session history to its file:', error)
+            );
+        return legacy;
+    }
+}
+
+// Older records may predate fields added later; fill sensible defaults
+function withDefaults(s: SessionRecord): SessionRecord {
+    return {
+        ...s,
+        errorsFixed: s.errorsFixed ?? 0,
+        pausedMs: s.pausedMs ?? 0,
+        pauseSpans: s.pauseSpans ?? []
+    };
+}
@@ -1,8 +1,13 @@
 import * as vscode from 'vscode';
+import { BuddyEventBus, BuddyEvents } from './buddyEventBus';
 
 export class StatusBarManager {
     private statusBarItem: vscode.StatusBarItem;
+    private pauseItem: vscode.StatusBarItem;
     private isActive: boolean = false;
+    private currentStatus: string = '🔴 Inactive';
+    private unhealthyServices: Map<string, string> = new Map(); // service -> latest problem
+    private subscriptions: vscode.Disposable[] = [];
 
     constructor() {
         // Create status bar item
@@ -19,9 +24,27 @@ export class StatusBarManager {
         
         // Show the status bar item
         this.statusBarItem.show();
+
+        // Pause/resume action, only visible while a session is running
+        this.pauseItem = vscode.window.createStatusBarItem(
+            'coding-buddy-pause',
+            vscode.StatusBarAlignment.Right,
+            99
+        );
+        this.pauseItem.name = 'Coding Buddy Pause';
+
+        const events = BuddyEventBus.getInstance();
+        this.subscriptions.push(
+            events.on('sessionStarted', () => this.updateStatus('🟢 Active')),
+            events.on('sessionPaused', () => this.updateStatus('⏸️ Paused')),
+            events.on('sessionResumed', () => this.updateStatus('🟢 Active')),
+            events.on('sessionStopped', () => this.updateStatus('🔴 Inactive')),
+            events.on('serviceHealthChanged', e => this.onServiceHealthChanged(e))
+        );
     }
 
     public updateStatus(text: string): void {
+        this.currentStatus = text;
         this.statusBarItem.text = text;
         
         // Update tooltip based on status
@@ -34,12 +57,54 @@ export class StatusBarManager {
                 this.statusBarItem.tooltip = 'Coding Buddy Bot is inactive. Click to show the bot interface!';
                 this.isActive = false;
                 break;
+            case '⏸️ Paused':
+                this.statusBarItem.tooltip = 'Coding Buddy session is paused. Click to show the bot interface!';
+                this.isActive = true;
+                break;
             default:
                 this.statusBarItem.tooltip = 'Click to show the Coding Buddy Bot interface!';
         }
 
         // Always show bot interface when clicked
         this.statusBarItem.command = 'coding-buddy-bot.showBot';
+
+        this.updatePauseControl(text);
+
+        // A failing remote service stays visible until it recovers
+        if (this.unhealthyServices.size > 0) {
+            this.showErrorStatus([...this.unhealthyServices.values()].join('\n'));
+        }
+    }
+
+    private onServiceHealthChanged(e: BuddyEvents['serviceHealthChanged']): void {
+        const wasUnhealthy = this.unhealthyServices.size > 0;
+        if (e.state === 'healthy') {
+            this.unhealthyServices.delete(e.service);
+        } else {
+            this.unhealthyServices.set(e.service, e.message);
+        }
+
+        if (this.unhealthyServices.size > 0) {
+            this.showErrorStatus([...this.unhealthyServices.values()].join('\n'));
+        } else if (wasUnhealthy) {
+            this.clearErrorStatus();
+        }
+    }
+
+    private updatePauseControl(status: string): void {
+        if (status === '🟢 Active') {
+            this.pauseItem.text = '$(debug-pause) Pause';
+            this.pauseItem.tooltip = 'Pause the Coding Buddy session';
+            this.pauseItem.command = 'coding-buddy-bot.pauseSession';
+            this.pauseItem.show();
+        } else if (status === '⏸️ Paused') {
+            this.pauseItem.text = '$(debug-start) Resume';
+            this.pauseItem.tooltip = 'Resume the Coding Buddy session';
+            this.pauseItem.command = 'coding-buddy-bot.resumeSession';
+            this.pauseItem.show();
+        } else {
+            this.pauseItem.hide();
+        }
     }
 
     public showSessionInfo(sessionDuration: number, breakthroughCount: number): void {
@@ -88,7 +153,8 @@ export class StatusBarManager {
 
     public clearErrorStatus(): void {
         this.statusBarItem.backgroundColor = undefined;
-        this.updateStatus('🔴 Inactive');
+        this.unhealthyServices.clear();
+        this.updateStatus(this.currentStatus);
     }
 
     public getStatusBarItem(): vscode.StatusBarItem {
@@ -96,6 +162,9 @@ export class StatusBarManager {
     }
 
     public dispose(): void {
+        this.subscriptions.forEach(d => d.dispose());
+        this.subscriptions = [];
         this.statusBarItem.dispose();
+        this.pauseItem.dispose();
     }
 }
@@ -0,0 +1,360 @@
+import * as vscode from 'vscode';
+import * as http from 'http';
+import * as crypto from 'crypto';
+import { Socket } from 'net';
+import { CodingBuddyBot } from './codingBuddyBot';
+import { CodeAnalyzer } from './codeAnalyzer';
+import { BuddyEventBus, BuddyEventName, BuddyEvents } from './buddyEventBus';
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+// Everything the bus publishes is forwarded to WebSocket clients; keyed by BuddyEvents so a new event can't be missed
+const STREAMED: Record<BuddyEventName, true> = {
+    sessionStarted: true, sessionPaused: true, sessionResumed: true, sessionStopped: true, sessionStatsChanged: true,
+    emotionDetected: true, errorFixed: true, codeErrorsChanged: true, breakthrough: true, badgeAwarded: true,
+    healthTipShown: true, bulkInsertDetected: true, bulkInsertReviewed: true, achievementUnlocked: true,
+    goalProgressChanged: true, dailyGoalReached: true, badgeClaimed: true, healthBreakCompleted: true,
+    xpGained: true, levelUp: true, levelProgressChanged: true, serviceHealthChanged: true
+};
+const STREAMED_EVENTS = Object.keys(STREAMED) as BuddyEventName[];
+
+interface StatusServerConfig {
+    enabled: boolean;
+    port: number;
+    token: string;
+    allowedOrigins: string[]; // browser origins that may read the server, e.g. an overlay page
+}
+
+type LatestEmotion = BuddyEvents['emotionDetected'] & { at: number };
+
+/**
+ * Opt-in read-only status endpoint on 127.0.0.1 for desk lights, overlays and the like.
+ *
+ * GET /status (or /session, /emotion, /code, /badges) returns JSON; a WebSocket on
+ * /events sends a snapshot on connect and then every bus event as it happens.
+ */
+export class StatusServer implements vscode.Disposable {
+    private server: http.Server | undefined;
+    private clients: Set<Socket> = new Set();
+    private config: StatusServerConfig | undefined;
+    private latestEmotion: LatestEmotion | undefined;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private readonly bot: CodingBuddyBot,
+        private readonly codeAnalyzer: CodeAnalyzer
+    ) {
+        const events = BuddyEventBus.getInstance();
+        this.disposables.push(
+            events.on('emotionDetected', (payload) => {
+                this.latestEmotion = { ...payload, at: Date.now() };
+            }),
+            ...STREAMED_EVENTS.map(name => events.on(name, (payload) => this.broadcast(name, payload))),
+            vscode.workspace.onDidChangeConfiguration((e) => {
+                if (e.affectsConfiguration('codingBuddy.statusServer')) this.applyConfig();
+            })
+        );
+
+        this.applyConfig();
+    }
+
+    private readConfig(): StatusServerConfig {
+        const cfg = vscode.workspace.getConfiguration('codingBuddy');
+        return {
+            enabled: cfg.get<boolean>('statusServer.enabled', false),
+            port: cfg.get<number>('statusServer.port', 17832),
+            token: cfg.get<string>('statusServer.token', ''),
+            allowedOrigins: cfg.get<string[]>('statusServer.allowedOrigins', [])
+                .map(origin => origin.trim().replace(/\/+$/, '').toLowerCase())
+                .filter(Boolean)
+        };
+    }
+
+    private applyConfig(): void {
+        const next = this.readConfig();
+        if (next.enabled && !next.token) {
+            next.token = this.createToken();
+        }
+        const prev = this.config;
+        this.config = next;
+
+        const needsRestart = !prev || prev.enabled !== next.enabled || prev.port !== next.port;
+        if (!needsRestart) return; // token changes apply to the next request
+
+        this.stop();
+        if (next.enabled) this.start(next.port);
+    }
+
+    /**
+     * The server never runs without a token: the first time it is enabled without one, a
+     * random token is generated, saved to `codingBuddy.statusServer.token` and offered to copy.
+     */
+    private createToken(): string {
+        const token = crypto.randomBytes(24).toString('hex');
+        vscode.workspace.getConfiguration('codingBuddy')
+            .update('statusServer.token', token, vscode.ConfigurationTarget.Global)
+            .then(undefined, (error) => console.error('❌ Failed to save the status server token:', error));
+        vscode.window.showInformationMessage(
+            '📡 Coding Buddy status server enabled. Clients must send the token saved in codingBuddy.statusServer.token.',
+            'Copy Token'
+        ).then(choice => {
+            if (choice === 'Copy Token') vscode.env.clipboard.writeText(token);
+        });
+        return token;
+    }
+
+    private start(port: number): void {
+        const server = http.createServer((req, res) => this.handleRequest(req, res));
+        server.on('upgrade', (req: http.IncomingMessage, socket: Socket) => this.handleUpgrade(req, socket));
+        server.on('error', (error: NodeJS.ErrnoException) => {
+            console.error('❌ Status server error:', error);
+            vscode.window.showWarningMessage(`Coding Buddy status server could not listen on port ${port}: ${error.code || error.message}`);
+            this.stop();
+        });
+        server.listen(port, '127.0.0.1', () => {
+            console.log(`📡 Status server listening on http://127.0.0.1:${port}`);
+        });
+        this.server = server;
+    }
+
+    private stop(): void {
+        for (const socket of this.clients) {
+            socket.destroy();
+        }
+        this.clients.clear();
+
+        if (this.server) {
+            this.server.close();
+            this.server = undefined;
+            console.log('📡 Status server stopped');
+        }
+    }
+
+    // ---- HTTP ----
+
+    private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+        const url = new URL(req.url || '/', 'http://127.0.0.1');
+
+        if (!this.isAllowedHost(req)) {
+            this.sendJson(res, 403, { error: 'Forbidden host' });
+            return;
+        }
+        if (!this.isAllowedOrigin(req)) {
+            this.sendJson(res, 403, { error: 'Forbidden origin' });
+            return;
+        }
+        if (req.method === 'OPTIONS') {
+            this.sendJson(res, 204, undefined, req);
+            return;
+        }
+        if (req.method !== 'GET') {
+            this.sendJson(res, 405, { error: 'Only GET is supported' });
+            return;
+        }
+        if (!this.isAuthorized(req, url)) {
+            this.sendJson(res, 401, { error: 'Missing or invalid token' }, req);
+            return;
+        }
+
+        const snapshot = this.buildSnapshot();
+        switch (url.pathname) {
+            case '/':
+            case '/status':
+                this.sendJson(res, 200, snapshot, req);
+                break;
+            case '/session':
+                this.sendJson(res, 200, snapshot.session, req);
+                break;
+            case '/emotion':
+                this.sendJson(res, 200, snapshot.emotion, req);
+                break;
+            case '/code':
+                this.sendJson(res, 200, snapshot.codeStats, req);
+                break;
+            case '/badges':
+                this.sendJson(res, 200, snapshot.badges, req);
+                break;
+            default:
+                this.sendJson(res, 404, { error: `Unknown path ${url.pathname}` }, req);
+        }
+    }
+
+    private sendJson(res: http.ServerResponse, status: number, body: unknown, req?: http.IncomingMessage): void {
+        const headers: http.OutgoingHttpHeaders = {
+            'Content-Type': 'application/json; charset=utf-8',
+            'Cache-Control': 'no-store',
+            'Vary': 'Origin'
+        };
+        // Only allowlisted origins (e.g. a browser-source overlay) may read responses from a page
+        const origin = req?.headers.origin;
+        if (origin && this.isAllowedOrigin(req!)) {
+            headers['Access-Control-Allow-Origin'] = origin;
+            headers['Access-Control-Allow-Headers'] = 'Authorization';
+        }
+        res.writeHead(status, headers);
+        res.end(body === undefined ? undefined : JSON.stringify(body));
+    }
+
+    /**
+     * Browsers send Origin with cross-site fetches and every WebSocket handshake; those must come
+     * from `codingBuddy.statusServer.allowedOrigins`. Non-browser clients send no Origin.
+     */
+    private isAllowedOrigin(req: http.IncomingMessage): boolean {
+        const origin = req.headers.origin;
+        if (!origin) return true;
+        return (this.config?.allowedOrigins ?? []).includes(origin.replace(/\/+$/, '').toLowerCase());
+    }
+
+    // DNS-rebinding guard: only answer requests addressed to the loopback interface
+    private isAllowedHost(req: http.IncomingMessage): boolean {
+        const host = (req.headers.host || '').replace(/:\d+$/, '').toLowerCase();
+        return host === '127.0.0.1' || host === 'localhost' || host === '[::1]';
+    }
+
+    private isAuthorized(req: http.IncomingMessage, url: URL): boolean {
+        // applyConfig always sets a token; fail closed if there is none anyway
+        const token = this.config?.token;
+        if (!token) return false;
+
+        const header = req.headers.authorization || '';
+        const presented = header.startsWith('Bearer ') ? header.slice(7) : url.searchParams.get('token') || '';
+        const a = Buffer.from(presented);
+        const b = Buffer.from(token);
+        return a.length === b.length && crypto.timingSafeEqual(a, b);
+    }
+
+    private buildSnapshot() {
+        const record = this.bot.getCurrentSessionRecord();
+        const analysis = this.codeAnalyzer.getCurrentAnalysis();
+
+        return {
+            session: {
+                active: this.bot.isSessionActive(),
+                paused: this.bot.isSessionPaused(),
+                pauseReason: this.bot.getPauseReason() ?? null,
+                id: record?.id ?? null,
+                startTime: record?.startTime ?? null,
+                activeDurationMs: record?.durationMs ?? 0,
+                pausedMs: record?.pausedMs ?? 0,
+                focusTime: record?.focusTime ?? 0,
+                breakthroughCount: record?.breakthroughCount ?? 0,
+                errorsFixed: record?.errorsFixed ?? 0
+            },
+            emotion: this.latestEmotion ?? { emotion: this.bot.getLastEmotion(), confidence: null, source: null, at: null },
+            codeStats: analysis ?? null,
+            badges: this.bot.getBadgesThisSession(),
+            generatedAt: Date.now()
+        };
+    }
+
+    // ---- WebSocket (server-to-client text frames only) ----
+
+    private handleUpgrade(req: http.IncomingMessage, socket: Socket): void {
+        const url = new URL(req.url || '/', 'http://127.0.0.1');
+        const key = req.headers['sec-websocket-key'];
+
+        if (url.pathname !== '/events' || typeof key !== 'string' ||
+            (req.headers.upgrade || '').toLowerCase() !== 'websocket' ||
+            !this.isAllowedHost(req) || !this.isAuthorized(req, url)) {
+            socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+            return;
+        }
+        if (!this.isAllowedOrigin(req)) {
+            socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+            return;
+        }
+
+        const accept = crypto.createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+        socket.write(
+            'HTTP/1.1 101 Switching Protocols\r\n' +
+            'Upgrade: websocket\r\n' +
+            'Connection: Upgrade\r\n' +
+            `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+        );
+
+        this.clients.add(socket);
+        socket.on('data', (data: Buffer) => this.handleClientFrame(socket, data));
+        socket.on('close', () => this.clients.delete(socket));
+        socket.on('error', () => this.clients.delete(socket));
+
+        socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify({ type: 'snapshot', at: Date.now(), data: this.buildSnapshot() }))));
+    }
+
+    // Clients only ever need to close or ping; anything else they send is ignored
+    private handleClientFrame(socket: Socket, data: Buffer): void {
+        const frame = decodeFrame(data);
+        if (!frame) return;
+
+        if (frame.opcode === 0x8) {
+            socket.end(encodeFrame(0x8, frame.payload.subarray(0, 2)));
+            this.clients.delete(socket);
+        } else if (frame.opcode === 0x9) {
+            socket.write(encodeFrame(0xA, frame.payload));
+        }
+    }
+
+    private broadcast<K extends BuddyEventName>(type: K, data: BuddyEvents[K]): void {
+        if (this.clients.size === 0) return;
+
+        const frame = encodeFrame(0x1, Buffer.from(JSON.stringify({ type, at: Date.now(), data })));
+        for (const socket of this.clients) {
+            socket.write(frame);
+        }
+    }
+
+    public dispose(): void {
+        this.stop();
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+}
+
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+    let header: Buffer;
+    if (payload.length < 126) {
+        header = Buffer.from([0x80 | opcode, payload.length]);
+    } else if (payload.length < 65536) {
+        header = Buffer.alloc(4);
+        header[0] = 0x80 | opcode;
+        header[1] = 126;
+        header.writeUInt16BE(payload.length, 2);
+    } else {
+        header = Buffer.alloc(10);
+        header[0] = 0x80 | opcode;
+        header[1] = 127;
+        header.writeUInt32BE(0, 2);
+        header.writeUInt32BE(payload.length, 6);
+    }
+    return Buffer.concat([header, payload]);
+}
+
+function decodeFrame(data: Buffer): { opcode: number; payload: Buffer } | undefined {
+    if (data.length < 2) return undefined;
+
+    const opcode = data[0] & 0x0f;
+    const masked = (data[1] & 0x80) !== 0;
+    let length = data[1] & 0x7f;
+    let offset = 2;
+
+    if (length === 126) {
+        if (data.length < 4) return undefined;
+        length = data.readUInt16BE(2);
+        offset = 4;
+    } else if (length === 127) {
+        if (data.length < 10) return undefined;
+        length = data.readUInt32BE(6);
+        offset = 10;
+    }
+
+    const mask = masked ? data.subarray(offset, offset + 4) : undefined;
+    if (masked) offset += 4;
+    if (data.length < offset + length) return undefined;
+
+    const payload = Buffer.from(data.subarray(offset, offset + length));
+    if (mask) {
+        for (let i = 0; i < payload.length; i++) {
+            payload[i] ^= mask[i % 4];
+        }
+    }
+    return { opcode, payload };
+}
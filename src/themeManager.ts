@@ -1,7 +1,10 @@
 import * as vscode from 'vscode';
+import { BuddyEventBus } from './buddyEventBus';
+import { EmotionSmoother } from './emotionSmoother';
+import { BuddyEmotion, emotionIcon } from './emotionTaxonomy';
 
 export interface ThemeMapping {
-    emotion: string;
+    emotion: BuddyEmotion;
     theme: string;
     description: string;
     icon: string;
@@ -14,56 +17,57 @@ export class ThemeManager {
     private themeChangeCooldown: number = 5000; // 5 seconds cooldown for demo
     private lastThemeChange: number = 0;
     private isEnabled: boolean = true;
+    private smoother: EmotionSmoother = new EmotionSmoother('theme');
 
-    // Emotion to theme mappings
+    // One theme per buddy emotion (see emotionTaxonomy.ts)
     private themeMappings: ThemeMapping[] = [
         {
             emotion: 'frustrated',
             theme: 'Default Dark+',
             description: 'Calming dark theme for when you\'re feeling frustrated',
-            icon: '😤'
+            icon: emotionIcon('frustrated')
         },
         {
             emotion: 'confused',
             theme: 'Light+ (default light)',
             description: 'Bright, clear theme to help clear your mind',
-            icon: '🤔'
+            icon: emotionIcon('confused')
         },
         {
             emotion: 'happy',
             theme: 'Abyss',
             description: 'Deep dark theme for when you\'re feeling great',
-            icon: '😊'
+            icon: emotionIcon('happy')
         },
         {
             emotion: 'focused',
             theme: 'High Contrast',
             description: 'Maximum contrast theme for deep focus',
-            icon: '🎯'
+            icon: emotionIcon('focused')
         },
         {
             emotion: 'surprised',
             theme: 'Light (Visual Studio)',
             description: 'BRIGHT WHITE EXPLOSION! Super bright theme for surprise!',
-            icon: '😲'
+            icon: emotionIcon('surprised')
         },
         {
             emotion: 'sad',
             theme: 'Abyss',
             description: 'Deepest dark theme for sad mood',
-            icon: '😢'
+            icon: emotionIcon('sad')
         },
         {
             emotion: 'disgusted',
             theme: 'High Contrast',
             description: 'Maximum contrast theme for disgust',
-            icon: '🤢'
+            icon: emotionIcon('disgusted')
         },
         {
             emotion: 'content',
             theme: 'Light+ (default light)',
             description: 'Bright theme for content mood',
-            icon: '😌'
+            icon: emotionIcon('content')
         }
     ];
 
@@ -71,6 +75,15 @@ export class ThemeManager {
         // Get current theme
         this.currentTheme = vscode.workspace.getConfiguration('workbench').get('colorTheme') as string;
         console.log('🎨 ThemeManager initialized with current theme:', this.currentTheme);
+
+        // Lives as long as the singleton, i.e. the extension host
+        BuddyEventBus.getInstance().on('emotionDetected', ({ emotion, confidence }) => {
+            // Only stable transitions switch themes, never a single frame
+            const change = this.smoother.push(emotion, confidence);
+            if (change) {
+                this.handleEmotionChange(change.emotion, change.confidence);
+            }
+        });
     }
 
     public static getInstance(): ThemeManager {
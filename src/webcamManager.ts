@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { isFrameFile } from './frameRetention';
 
 export class WebcamManager {
     private static instance: WebcamManager;
@@ -161,16 +162,19 @@ export class WebcamManager {
         }
     }
 
+    /**
+     * Removes in-progress captures (temp_frame.jpg, test.jpg, ...) from the temp directory.
+     * Saved frames are left to FrameRetention, which enforces their caps.
+     */
     public cleanup(): void {
-        // Clean up temp directory
-        if (fs.existsSync(this.tempDir)) {
-            fs.readdir(this.tempDir, (err, files) => {
-                if (!err) {
-                    files.forEach(file => {
-                        fs.unlink(path.join(this.tempDir, file), () => {});
-                    });
-                }
-            });
+        if (!fs.existsSync(this.tempDir)) return;
+        for (const file of fs.readdirSync(this.tempDir)) {
+            if (isFrameFile(file)) continue;
+            try {
+                fs.unlinkSync(path.join(this.tempDir, file));
+            } catch (error) {
+                console.warn(`⚠️ Could not remove ${file}:`, error);
+            }
         }
     }
 }
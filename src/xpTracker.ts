@@ -0,0 +1,183 @@
+import * as vscode from 'vscode';
+import { BuddyEventBus } from './buddyEventBus';
+import { BadgeRarity } from './badgeStore';
+
+export type XpReason = 'badgeClaimed' | 'errorFixed' | 'healthBreak';
+
+/** A bot look unlocked at `level`; `faces` override the neutral face per emotion. */
+export interface BotAvatar {
+    id: string;
+    name: string;
+    level: number;
+    neutral: string;
+    faces: { [emotion: string]: string };
+}
+
+export interface LevelProgress {
+    xp: number;
+    level: number;
+    levelStartXp: number; // total XP at which `level` was reached
+    nextLevelXp: number; // total XP needed for the next level
+    avatar: BotAvatar;
+}
+
+export const XP_REWARDS: { badgeClaimed: Record<BadgeRarity, number>; errorFixed: number; healthBreak: number } = {
+    badgeClaimed: { common: 10, rare: 25, epic: 50, legendary: 100 },
+    errorFixed: 5, // per error
+    healthBreak: 15
+};
+
+export const BOT_AVATARS: BotAvatar[] = [
+    { id: 'classic', name: 'Classic Bot', level: 1, neutral: '🤖', faces: { happy: '😊', frustrated: '😤', confused: '😟' } },
+    { id: 'cat', name: 'Code Cat', level: 3, neutral: '🐱', faces: { happy: '😸', frustrated: '😾', confused: '🙀' } },
+    { id: 'fox', name: 'Clever Fox', level: 5, neutral: '🦊', faces: {} },
+    { id: 'owl', name: 'Night Owl', level: 8, neutral: '🦉', faces: {} },
+    { id: 'unicorn', name: 'Unicorn', level: 12, neutral: '🦄', faces: {} },
+    { id: 'dragon', name: 'Dragon', level: 16, neutral: '🐉', faces: {} },
+    { id: 'wizard', name: 'Wizard', level: 20, neutral: '🧙', faces: {} }
+];
+
+/** Total XP needed to reach `level`: 100 for level 2, then each level costs 100 more than the last. */
+export function xpForLevel(level: number): number {
+    return 50 * level * (level - 1);
+}
+
+export function levelForXp(xp: number): number {
+    let level = 1;
+    while (xp >= xpForLevel(level + 1)) level++;
+    return level;
+}
+
+interface XpState {
+    xp: number;
+    avatarId?: string; // picked by the user; otherwise the newest unlocked avatar
+}
+
+/**
+ * Points economy: claimed badges, fixed errors and completed health breaks earn XP,
+ * and levels unlock avatars for the bot panel. XP is kept in global state; as with
+ * achievements, fixes and health breaks only count while a session is running.
+ */
+export class XpTracker implements vscode.Disposable {
+    private static readonly STORAGE_KEY = 'codingBuddy.xp';
+
+    private statusItem: vscode.StatusBarItem;
+    private sessionActive: boolean = false;
+    private subscriptions: vscode.Disposable[] = [];
+    private events: BuddyEventBus = BuddyEventBus.getInstance();
+
+    constructor(private readonly state: vscode.Memento) {
+        // Next to the streak item (Left, 97)
+        this.statusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 96);
+        this.statusItem.name = 'Coding Buddy Level';
+        this.statusItem.command = 'coding-buddy-bot.showLevel';
+        this.statusItem.show();
+
+        this.subscriptions.push(
+            this.events.on('sessionStarted', () => { this.sessionActive = true; }),
+            this.events.on('sessionStopped', () => { this.sessionActive = false; }),
+            // Claims happen from notifications that can outlive the session, so they always pay out
+            this.events.on('badgeClaimed', ({ label, rarity }) => {
+                const amount = XP_REWARDS.badgeClaimed[rarity];
+                this.award(amount, 'badgeClaimed');
+                vscode.window.showInformationMessage(`🎉 ${label} claimed! +${amount} XP`);
+            }),
+            this.events.on('errorFixed', ({ errorCount }) => {
+                if (this.sessionActive) this.award(errorCount * XP_REWARDS.errorFixed, 'errorFixed');
+            }),
+            this.events.on('healthBreakCompleted', () => {
+                if (this.sessionActive) this.award(XP_REWARDS.healthBreak, 'healthBreak');
+            })
+        );
+
+        this.publish();
+    }
+
+    public getProgress(): LevelProgress {
+        const state = this.readState();
+        const level = levelForXp(state.xp);
+        return {
+            xp: state.xp,
+            level,
+            levelStartXp: xpForLevel(level),
+            nextLevelXp: xpForLevel(level + 1),
+            avatar: this.resolveAvatar(state, level)
+        };
+    }
+
+    public async showLevelQuickPick(): Promise<void> {
+        const progress = this.getProgress();
+        const items = BOT_AVATARS.map(a => {
+            const unlocked = a.level <= progress.level;
+            return {
+                label: `${unlocked ? a.neutral : '🔒'} ${a.name}`,
+                description: a.id === progress.avatar.id ? 'Current avatar' : unlocked ? '' : `Unlocks at level ${a.level}`,
+                avatar: a,
+                unlocked
+            };
+        });
+
+        const sel = await vscode.window.showQuickPick(items, {
+            placeHolder: `Level ${progress.level} · ${progress.xp}/${progress.nextLevelXp} XP — pick an avatar`
+        });
+        if (!sel) return;
+        if (!sel.unlocked) {
+            vscode.window.showInformationMessage(`🔒 ${sel.avatar.name} unlocks at level ${sel.avatar.level}.`);
+            return;
+        }
+
+        this.writeState({ ...this.readState(), avatarId: sel.avatar.id });
+        this.publish();
+    }
+
+    private award(amount: number, reason: XpReason): void {
+        if (amount <= 0) return;
+
+        const state = this.readState();
+        const before = levelForXp(state.xp);
+        state.xp += amount;
+        const level = levelForXp(state.xp);
+        this.writeState(state);
+
+        const at = Date.now();
+        this.events.emit('xpGained', { amount, reason, xp: state.xp, level, at });
+
+        if (level > before) {
+            this.events.emit('levelUp', { level, at });
+            const unlocked = BOT_AVATARS.filter(a => a.level > before && a.level <= level);
+            const extra = unlocked.length ? ` New avatar: ${unlocked.map(a => `${a.neutral} ${a.name}`).join(', ')}` : '';
+            vscode.window.showInformationMessage(`⭐ Level ${level} reached!${extra}`, 'Choose Avatar')
+                .then(sel => { if (sel) this.showLevelQuickPick(); });
+        }
+
+        this.publish();
+    }
+
+    private resolveAvatar(state: XpState, level: number): BotAvatar {
+        const unlocked = BOT_AVATARS.filter(a => a.level <= level);
+        return unlocked.find(a => a.id === state.avatarId) || unlocked[unlocked.length - 1];
+    }
+
+    private publish(): void {
+        const p = this.getProgress();
+        this.statusItem.text = `⭐ ${p.level}`;
+        this.statusItem.tooltip = `Level ${p.level} · ${p.xp}/${p.nextLevelXp} XP\nClick to choose an avatar`;
+        this.events.emit('levelProgressChanged', p);
+    }
+
+    private readState(): XpState {
+        return { xp: 0, ...this.state.get<Partial<XpState>>(XpTracker.STORAGE_KEY, {}) };
+    }
+
+    private writeState(state: XpState): void {
+        this.state.update(XpTracker.STORAGE_KEY, state).then(undefined, error => {
+            console.error('❌ Failed to save XP:', error);
+        });
+    }
+
+    public dispose(): void {
+        this.subscriptions.forEach(d => d.dispose());
+        this.subscriptions = [];
+        this.statusItem.dispose();
+    }
+}